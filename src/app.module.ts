@@ -2,8 +2,16 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { BotModule } from './bot/bot.module';
 import { SchedulerModule } from './scheduler/scheduler.module';
+import { StatusModule } from './status/status.module';
+import { StorageModule } from './storage/storage.module';
 
 @Module({
-  imports: [ConfigModule.forRoot(), BotModule, SchedulerModule],
+  imports: [
+    ConfigModule.forRoot(),
+    BotModule,
+    SchedulerModule,
+    StorageModule,
+    StatusModule,
+  ],
 })
 export class AppModule {}
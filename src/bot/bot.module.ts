@@ -1,7 +1,27 @@
 import { Module } from '@nestjs/common';
+import { BroadcastModule } from 'src/broadcast/broadcast.module';
+import { ChartModule } from 'src/chart/chart.module';
+import { I18nModule } from 'src/i18n/i18n.module';
+import { MarketModule } from 'src/market/market.module';
+import { PriceModule } from 'src/price/price.module';
+import { Telegraf } from 'telegraf';
 import { BotService } from './bot.service';
 
 @Module({
-  providers: [BotService],
+  imports: [
+    PriceModule,
+    MarketModule,
+    ChartModule,
+    I18nModule,
+    BroadcastModule,
+  ],
+  providers: [
+    {
+      provide: Telegraf,
+      useFactory: () => new Telegraf(process.env.TELEGRAM_BOT_TOKEN),
+    },
+    BotService,
+  ],
+  exports: [BotService],
 })
 export class BotModule {}
@@ -1,17 +1,189 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import axios from 'axios';
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
+import { randomBytes, randomUUID } from 'crypto';
+import { readNumberEnv } from 'src/common/env';
+import {
+  OrderBook,
+  OrderBookLevel,
+  PriceSide,
+  Quote,
+} from 'src/price/price-provider.interface';
+import { BroadcastService } from 'src/broadcast/broadcast.service';
+import { Delivery } from 'src/broadcast/delivery.interface';
+import { ChartService } from 'src/chart/chart.service';
+import { I18nService } from 'src/i18n/i18n.service';
+import { Calendar, Language, LANGUAGES } from 'src/i18n/languages';
+import { Messages } from 'src/i18n/messages/en';
+import { ConversionStep } from 'src/market/market.interface';
+import { MarketService } from 'src/market/market.service';
+import { PriceService } from 'src/price/price.service';
+import { Clock } from 'src/scheduler/clock';
 import { SchedulerService } from 'src/scheduler/scheduler.service';
-import { Context, Markup, Telegraf } from 'telegraf';
-import { InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
+import {
+  Alert,
+  Chat,
+  DigestTemplate,
+  Holding,
+} from 'src/storage/chat.interface';
+import { ChatRegistry } from 'src/storage/chat-registry';
+import { ChatStorage } from 'src/storage/chat-storage';
+import { createChat } from 'src/storage/create-chat';
+import { PriceHistoryStorage } from 'src/storage/price-history-storage';
+import { PriceSampleStorage } from 'src/storage/price-sample-storage';
+import { RegisteredChat } from 'src/storage/registered-chat.interface';
+import {
+  Composer,
+  Context,
+  Markup,
+  Middleware,
+  MiddlewareFn,
+  Telegraf,
+  TelegramError,
+} from 'telegraf';
+import {
+  escapeDigestText,
+  formatDigestBold,
+  getDigestParseMode,
+  getDigestSeparator,
+} from './digest-template';
+import {
+  formatQuietHours,
+  getQuietHoursLength,
+  isValidTimeZone,
+  isWithinQuietHours,
+  parseQuietHours,
+} from './quiet-hours';
+import {
+  Chat as TelegramChat,
+  InlineKeyboardButton,
+  InlineKeyboardMarkup,
+  ParseMode,
+} from 'telegraf/typings/core/types/typegram';
 
 /**
- * Constant representing a 30-minute interval in milliseconds.
+ * Constant representing a 5-minute interval in milliseconds.
  *
- * Value is calculated as 30 minutes * 60 seconds per minute * 1000 milliseconds per second.
+ * Value is calculated as 5 minutes * 60 seconds per minute * 1000 milliseconds per second.
+ * This is the shortest update interval a chat can choose, so price updates are checked this often.
  */
-const EVERY_30_MINUTES = 30 * 60 * 1000;
+const EVERY_5_MINUTES = 5 * 60 * 1000;
 
-const USERNAMES = ['PricePulse30', 'PricePulse30Channel'];
+/**
+ * Constant representing a 1-minute interval in milliseconds.
+ *
+ * Used as the polling interval for price alerts.
+ */
+const EVERY_MINUTE = 60 * 1000;
+
+/**
+ * Constant representing a 1-hour interval in milliseconds.
+ */
+const EVERY_HOUR = 60 * EVERY_MINUTE;
+
+/**
+ * Constant representing a 1-day interval in milliseconds.
+ *
+ * Used as the window for the 24-hour change, high and low in price updates.
+ */
+const EVERY_DAY = 24 * EVERY_HOUR;
+
+/**
+ * The maximum number of results returned for an inline query.
+ */
+const MAX_INLINE_RESULTS = 10;
+
+/**
+ * The time in seconds Telegram may cache the results of an inline query.
+ */
+const INLINE_CACHE_TIME = 10;
+
+/**
+ * The time ranges available for price charts, with their durations in milliseconds.
+ */
+const CHART_RANGES: Map<string, number> = new Map([
+  ['24h', EVERY_DAY],
+  ['7d', 7 * EVERY_DAY],
+  ['30d', 30 * EVERY_DAY],
+]);
+
+/**
+ * The number of currency buttons shown on each page of the currency selection keyboard.
+ */
+const CURRENCIES_PER_PAGE = 12;
+
+/**
+ * The update intervals a chat can choose from, in minutes.
+ * Every interval divides a day, so updates stay aligned to the same times each day.
+ */
+const INTERVALS = [5, 15, 30, 60, 3 * 60, 6 * 60, 12 * 60, 24 * 60];
+
+/**
+ * The characters and length Telegram accepts for the secret token of a webhook.
+ */
+const WEBHOOK_SECRET_PATTERN = /^[A-Za-z0-9_-]{1,256}$/;
+
+/**
+ * The templates a chat can choose for its price updates.
+ */
+const DIGEST_TEMPLATES: DigestTemplate[] = [
+  'detailed',
+  'compact',
+  'markdown',
+  'html',
+];
+
+/**
+ * The sides of the order book a chat can choose to have its price updates report.
+ */
+const PRICE_SIDES: PriceSide[] = ['bid', 'ask', 'mid'];
+
+/**
+ * The number of order book levels whose volume /book sums up by default.
+ */
+const DEFAULT_BOOK_LEVELS = 5;
+
+/**
+ * The largest number of order book levels /book sums up.
+ */
+const MAX_BOOK_LEVELS = 20;
+
+/**
+ * The assets the total value of a portfolio is expressed in.
+ * The value of each holding is expressed in the first of them.
+ */
+const PORTFOLIO_TOTAL_ASSETS = ['IRT', 'USDT'];
+
+/**
+ * The price moves, in percent, a chat can choose to be notified of.
+ */
+const VOLATILITY_THRESHOLDS = [1, 2, 3, 5];
+
+/**
+ * The time windows, in minutes, a chat can choose for price moves to happen within.
+ * The longest must not exceed the retention of the price samples.
+ */
+const VOLATILITY_WINDOWS = [5, 15, 30, 60];
+
+/**
+ * The time window, in minutes, picked when a chat turns sudden move notifications on.
+ */
+const DEFAULT_VOLATILITY_WINDOW = 15;
+
+/**
+ * The default time in milliseconds between two price samples taken to detect sudden moves.
+ */
+const DEFAULT_VOLATILITY_SAMPLE_INTERVAL = EVERY_MINUTE;
+
+/**
+ * The default time in milliseconds after a sudden move of a currency pair is notified
+ * during which further moves of the same pair are not notified to the same chat.
+ */
+const DEFAULT_VOLATILITY_COOLDOWN = EVERY_HOUR;
 
 /**
  * The `BotService` class is responsible for managing the Telegram bot interactions,
@@ -23,13 +195,7 @@ const USERNAMES = ['PricePulse30', 'PricePulse30Channel'];
  * @implements {OnModuleInit}
  */
 @Injectable()
-export class BotService implements OnModuleInit {
-  /**
-   * An instance of the Telegraf bot used to interact with the Telegram API.
-   * This bot handles the messaging and command functionalities for the application.
-   */
-  private bot: Telegraf;
-
+export class BotService implements OnModuleInit, OnApplicationShutdown {
   /**
    * A logger instance for the BotService class.
    * Used to log messages and errors for debugging and monitoring purposes.
@@ -37,403 +203,3444 @@ export class BotService implements OnModuleInit {
   private readonly logger = new Logger(BotService.name);
 
   /**
-   * A map of currency pairs with their respective locale and currency information.
+   * Whether the bot has been launched and is receiving updates.
+   */
+  private launched = false;
+
+  /**
+   * Resolves once the channels and groups of `SEED_CHATS` have been registered, if they had to be.
+   */
+  private seeding: Promise<void> = Promise.resolve();
+
+  /**
+   * The Telegram user IDs of the admins of the bot, who may manage the chat registry.
+   * They are read from the comma-separated `ADMIN_USER_IDS` environment variable.
+   */
+  private readonly adminUserIds = new Set(
+    (process.env.ADMIN_USER_IDS ?? '')
+      .split(',')
+      .map((id) => Number(id.trim()))
+      .filter(Boolean),
+  );
+
+  /**
+   * The handlers of the commands that can also be posted in channels, keyed by command.
+   * Telegraf only matches commands in messages, so channel posts are routed by `handleChannelPost`.
+   */
+  private readonly channelCommands = new Map<string, MiddlewareFn<Context>>();
+
+  /**
+   * The time in milliseconds between two price samples taken to detect sudden moves.
+   */
+  private readonly volatilitySampleInterval = readNumberEnv(
+    'VOLATILITY_SAMPLE_INTERVAL',
+    DEFAULT_VOLATILITY_SAMPLE_INTERVAL,
+    { allowZero: false },
+  );
+
+  /**
+   * The time in milliseconds during which a chat is not notified again of sudden moves of the same currency pair.
+   */
+  private readonly volatilityCooldown = readNumberEnv(
+    'VOLATILITY_COOLDOWN',
+    DEFAULT_VOLATILITY_COOLDOWN,
+  );
+
+  /**
+   * Initializes the BotService with the provided services and storages.
+   *
+   * @param schedulerService The service responsible for scheduling jobs.
+   * @param clock The clock the scheduled jobs run on, which price snapshots are timed by.
+   * @param chats The storage that persists chat information and subscriptions.
+   * @param chatRegistry The registry of the channels and groups the bot serves.
+   * @param priceService The service that fetches market prices from the configured providers.
+   * @param priceHistory The storage that keeps every price snapshot fetched for price updates.
+   * @param priceSamples The storage that keeps the frequent price samples used to detect sudden moves.
+   * @param markets The catalogue of supported markets.
+   * @param chartService The service that renders price charts.
+   * @param i18n The service that provides the translated messages.
+   * @param broadcastService The service that delivers messages to many chats within Telegram's rate limits.
+   * @param httpAdapterHost The host of the HTTP server the webhook is mounted on.
+   * @param bot The Telegraf bot used to interact with the Telegram API.
+   */
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly clock: Clock,
+    private readonly chats: ChatStorage,
+    private readonly chatRegistry: ChatRegistry,
+    private readonly priceService: PriceService,
+    private readonly priceHistory: PriceHistoryStorage,
+    private readonly priceSamples: PriceSampleStorage,
+    private readonly markets: MarketService,
+    private readonly chartService: ChartService,
+    private readonly i18n: I18nService,
+    private readonly broadcastService: BroadcastService,
+    private readonly httpAdapterHost: HttpAdapterHost,
+    private readonly bot: Telegraf,
+  ) {}
+
+  /**
+   * Initializes the Telegram bot and sets up command handlers and scheduled jobs.
+   */
+  onModuleInit = () => {
+    this.seeding = this.seedChatRegistry().catch((error) =>
+      this.logger.error('Failed to seed the chat registry', error),
+    );
+
+    this.bot.use(this.initializeChatIfAbsent);
+
+    this.bot.on('channel_post', this.handleChannelPost);
+
+    this.bot.start(this.handleStartCommand);
+    this.command(
+      'subscribe',
+      this.requireChatAdmin,
+      this.handleSubscribeCommand,
+    );
+    this.command(
+      'unsubscribe',
+      this.requireChatAdmin,
+      this.handleUnsubscribeCommand,
+    );
+    this.command('alert', this.requireChatAdmin, this.handleAlertCommand);
+    this.command('alerts', this.handleAlertsCommand);
+    this.command(
+      'volatility',
+      this.requireChatAdmin,
+      this.handleVolatilityCommand,
+    );
+    this.command('interval', this.requireChatAdmin, this.handleIntervalCommand);
+    this.command('chart', this.handleChartCommand);
+    this.command(
+      'digestchart',
+      this.requireChatAdmin,
+      this.handleDigestChartCommand,
+    );
+    this.command('price', this.handlePriceCommand);
+    this.command('book', this.handleBookCommand);
+    this.command('convert', this.handleConvertCommand);
+    this.command('portfolio', this.handlePortfolioCommand);
+    this.command(
+      'digestprice',
+      this.requireChatAdmin,
+      this.handleDigestPriceCommand,
+    );
+    this.command(
+      'digesttemplate',
+      this.requireChatAdmin,
+      this.handleDigestTemplateCommand,
+    );
+    this.command(
+      'liveticker',
+      this.requireChatAdmin,
+      this.handleLiveTickerCommand,
+    );
+    this.command('quiet', this.requireChatAdmin, this.handleQuietCommand);
+    this.command('timezone', this.requireChatAdmin, this.handleTimeZoneCommand);
+    this.command(
+      'morningsummary',
+      this.requireChatAdmin,
+      this.handleMorningSummaryCommand,
+    );
+    this.command('language', this.requireChatAdmin, this.handleLanguageCommand);
+
+    this.bot.command(
+      'admin_add_channel',
+      this.requireBotAdmin,
+      this.handleAdminAddChannelCommand,
+    );
+    this.bot.command(
+      'admin_remove_channel',
+      this.requireBotAdmin,
+      this.handleAdminRemoveChannelCommand,
+    );
+    this.bot.command(
+      'admin_list',
+      this.requireBotAdmin,
+      this.handleAdminListCommand,
+    );
+
+    this.bot.on('inline_query', this.handleInlineQuery);
+
+    this.bot.action(
+      /toggle_currency_(.+)/,
+      this.requireChatAdmin,
+      this.handleToggleCurrencyAction,
+    );
+    this.bot.action(
+      /currency_page_(\w+)_(\d+)/,
+      this.requireChatAdmin,
+      this.handleCurrencyPageAction,
+    );
+    this.bot.action(
+      'confirm_currency',
+      this.requireChatAdmin,
+      this.handleConfirmCurrencyAction,
+    );
+    this.bot.action(
+      /delete_alert_(.+)/,
+      this.requireChatAdmin,
+      this.handleDeleteAlertAction,
+    );
+    this.bot.action(
+      /set_volatility_(threshold|window)_(\d+)/,
+      this.requireChatAdmin,
+      this.handleSetVolatilityAction,
+    );
+    this.bot.action(
+      'volatility_off',
+      this.requireChatAdmin,
+      this.handleVolatilityOffAction,
+    );
+    this.bot.action(
+      /set_interval_(\d+)/,
+      this.requireChatAdmin,
+      this.handleSetIntervalAction,
+    );
+    this.bot.action(
+      /set_price_side_(bid|ask|mid)/,
+      this.requireChatAdmin,
+      this.handleSetPriceSideAction,
+    );
+    this.bot.action(
+      /set_digest_template_(detailed|compact|markdown|html)/,
+      this.requireChatAdmin,
+      this.handleSetDigestTemplateAction,
+    );
+    this.bot.action(
+      /set_language_(\w+)/,
+      this.requireChatAdmin,
+      this.handleSetLanguageAction,
+    );
+    this.bot.action(
+      /set_calendar_(gregorian|persian)/,
+      this.requireChatAdmin,
+      this.handleSetCalendarAction,
+    );
+    this.bot.action('noop', (ctx) => ctx.answerCbQuery());
+
+    this.bot.catch((err) => this.logger.error('Something went wrong! ', err));
+
+    if (this.isWebhookMode()) {
+      this.launchWebhook().catch((error) =>
+        this.logger.error('Failed to set the webhook', error),
+      );
+    } else {
+      this.bot
+        .launch(() => {
+          this.launched = true;
+          this.logger.log('Bot launched in polling mode');
+        })
+        .catch((error) => {
+          this.launched = false;
+          this.logger.error('Failed to launch the bot', error);
+        });
+    }
+
+    this.schedulerService.scheduleAlignedJob(
+      'sendPriceUpdate',
+      EVERY_5_MINUTES,
+      this.sendPriceUpdate,
+    );
+
+    this.schedulerService.scheduleJob(
+      'checkPriceAlerts',
+      EVERY_MINUTE,
+      this.checkPriceAlerts,
+    );
+
+    this.schedulerService.scheduleJob(
+      'checkVolatility',
+      this.volatilitySampleInterval,
+      this.checkVolatility,
+    );
+  };
+
+  /**
+   * Stops the bot when the application shuts down (e.g. on SIGTERM).
+   * In polling mode, polling is stopped; in webhook mode, the webhook is deleted.
+   *
+   * @param {string} [signal] The signal that triggered the shutdown.
+   */
+  onApplicationShutdown = async (signal?: string) => {
+    if (!this.launched) {
+      return;
+    }
+
+    this.launched = false;
+
+    if (this.isWebhookMode()) {
+      await this.bot.telegram
+        .deleteWebhook()
+        .catch((error) =>
+          this.logger.error('Failed to delete the webhook', error),
+        );
+    } else {
+      this.bot.stop(signal);
+    }
+
+    this.logger.log(`Bot stopped${signal ? ` on ${signal}` : ''}`);
+  };
+
+  /**
+   * Tells whether updates are received through a webhook rather than long polling,
+   * as selected by the `BOT_MODE` environment variable (`polling` by default).
+   *
+   * @returns {boolean} `true` in webhook mode.
+   */
+  private readonly isWebhookMode = (): boolean =>
+    process.env.BOT_MODE === 'webhook';
+
+  /**
+   * Receives updates through a webhook: mounts the webhook handler on the HTTP server
+   * of the application, at `WEBHOOK_PATH`, and registers `WEBHOOK_URL` + `WEBHOOK_PATH`
+   * with Telegram, keeping the path of `WEBHOOK_URL` if any. Requests without the secret token header set in `WEBHOOK_SECRET`
+   * (random on every start when not set or empty) are ignored.
    *
-   * The map keys are strings representing the currency pair (e.g., 'USDTIRT').
-   * The map values are objects containing 'from' and 'to' properties, each of which
-   * includes a 'locale' and 'currency' string.
+   * @returns {Promise<void>} A promise that resolves once the webhook has been registered.
    *
-   * Example currency pairs:
-   * - 'USDTIRT': Converts from USD to IRR with respective locales 'en-US' and 'fa-IR'.
-   * - 'BTCIRT': Converts from BTC to IRR with respective locales 'en-US' and 'fa-IR'.
+   * @throws {Error} If `WEBHOOK_URL` is not set or not a URL, or if `WEBHOOK_SECRET` is not
+   *              a valid secret token, so that the webhook is never registered without one.
    */
-  private readonly currencies: Map<
-    string,
-    {
-      from: { locale: string; currency: string };
-      to: { locale: string; currency: string };
+  private readonly launchWebhook = async (): Promise<void> => {
+    const path = process.env.WEBHOOK_PATH ?? '/telegram/webhook';
+    const baseUrl = process.env.WEBHOOK_URL?.trim();
+    const secretToken =
+      process.env.WEBHOOK_SECRET?.trim() || randomBytes(32).toString('hex');
+
+    if (!baseUrl || !URL.canParse(baseUrl)) {
+      throw new Error(
+        'WEBHOOK_URL must be the public URL of the HTTP server, e.g. https://bot.example.com',
+      );
     }
-  > = new Map([
-    [
-      'USDTIRT',
-      {
-        from: { locale: 'en-US', currency: 'USD' },
-        to: { locale: 'fa-IR', currency: 'IRR' },
-      },
-    ],
-    [
-      'BTCIRT',
-      {
-        from: { locale: 'en-US', currency: 'BTC' },
-        to: { locale: 'fa-IR', currency: 'IRR' },
-      },
-    ],
-  ]);
+
+    // Joined rather than resolved, which would drop the path of WEBHOOK_URL,
+    // e.g. the prefix a reverse proxy serves the bot under.
+    const url = new URL(baseUrl);
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+
+    // Telegraf skips the verification of updates when the secret token is empty.
+    if (!WEBHOOK_SECRET_PATTERN.test(secretToken)) {
+      throw new Error(
+        'WEBHOOK_SECRET must be 1-256 characters of A-Z, a-z, 0-9, _ and -',
+      );
+    }
+
+    // Mounted before anything is awaited, i.e. while the application is still initializing,
+    // as middleware added later would come after the handler of unknown routes.
+    this.httpAdapterHost.httpAdapter.use(
+      this.bot.webhookCallback(path, { secretToken }),
+    );
+
+    // Fetched upfront, as the webhook handler would otherwise fetch it on the first update.
+    this.bot.botInfo ??= await this.bot.telegram.getMe();
+
+    await this.bot.telegram.setWebhook(url.href, { secret_token: secretToken });
+
+    this.launched = true;
+    this.logger.log(`Bot launched in webhook mode at ${url.href}`);
+  };
+
+  /**
+   * Tells whether the bot has been launched and is receiving updates.
+   *
+   * @returns {boolean} `true` once the bot has been launched.
+   */
+  readonly isLaunched = (): boolean => this.launched;
+
+  /**
+   * Registers the handlers of a command, both for messages and for channel posts.
+   *
+   * @param {string} command The command, without the leading slash (e.g. 'subscribe').
+   * @param middlewares The middlewares that handle the command, in order.
+   */
+  private readonly command = (
+    command: string,
+    ...middlewares: [Middleware<Context>, ...Middleware<Context>[]]
+  ) => {
+    this.bot.command(command, ...middlewares);
+    this.channelCommands.set(command, Composer.compose(middlewares));
+  };
+
+  /**
+   * Middleware to initialize chat data if it is absent.
+   *
+   * Updates from channels and groups are only handled if the chat is in the chat registry;
+   * updates from any other channel or group are dropped. Channels and groups that already
+   * have stored state, i.e. that were served before the registry existed, are registered
+   * on their first update.
+   *
+   * This middleware checks if the chat ID exists in the `chats` storage. If it does not,
+   * it initializes the chat data with the default settings and no subscriptions.
+   * The language of a new chat is taken from the Telegram language of the user, if supported.
+   * Updates that do not belong to a chat, such as inline queries, are passed through.
+   *
+   * @param {Context} ctx The context object containing the chat information.
+   * @param {() => Promise<void>} next The next middleware function in the stack.
+   */
+  private readonly initializeChatIfAbsent = async (
+    ctx: Context,
+    next: () => Promise<void>,
+  ) => {
+    if (!ctx.chat) {
+      await next();
+      return;
+    }
+
+    const chatId = ctx.chat.id;
+
+    if (ctx.chat.type !== 'private') {
+      await this.seeding;
+    }
+
+    if (ctx.chat.type !== 'private' && !(await this.chatRegistry.has(chatId))) {
+      if (!(await this.chats.get(chatId))) {
+        return;
+      }
+
+      await this.chatRegistry.add(this.createRegisteredChat(ctx.chat));
+    }
+
+    if (!(await this.chats.get(chatId))) {
+      const language = this.i18n.detectLanguage(ctx.from?.language_code);
+
+      await this.chats.set(chatId, {
+        ...createChat(),
+        language,
+        calendar: LANGUAGES.get(language).calendar,
+      });
+    }
+
+    await next();
+  };
+
+  /**
+   * Middleware that only lets the admins of a channel or group change its subscriptions
+   * and settings. Private chats, and messages sent on behalf of the chat itself
+   * (anonymous group admins), are always let through.
+   *
+   * @param {Context} ctx The context of the command or callback query.
+   * @param {() => Promise<void>} next The next middleware function in the stack.
+   */
+  private readonly requireChatAdmin = async (
+    ctx: Context,
+    next: () => Promise<void>,
+  ) => {
+    const chatId = ctx.chat.id;
+
+    if (
+      ctx.chat.type === 'private' ||
+      ctx.senderChat?.id === chatId ||
+      (await this.isChatAdmin(chatId, ctx.from?.id))
+    ) {
+      await next();
+      return;
+    }
+
+    const t = await this.getMessages(chatId);
+
+    if (ctx.callbackQuery) {
+      ctx.answerCbQuery(t.chatAdminOnly, { show_alert: true });
+    } else {
+      ctx.reply(t.chatAdminOnly);
+    }
+  };
+
+  /**
+   * Checks whether a user is the creator or an administrator of a chat.
+   *
+   * @param {number} chatId The ID of the chat.
+   * @param {number} [userId] The ID of the user.
+   *
+   * @returns {Promise<boolean>} `true` if the user administers the chat, `false` otherwise
+   *              or if the membership could not be checked.
+   */
+  private readonly isChatAdmin = async (
+    chatId: number,
+    userId?: number,
+  ): Promise<boolean> => {
+    if (!userId) {
+      return false;
+    }
+
+    try {
+      const { status } = await this.bot.telegram.getChatMember(chatId, userId);
+
+      return status === 'creator' || status === 'administrator';
+    } catch (error) {
+      this.logger.warn(
+        `Failed to check the membership of ${userId} in chat ${chatId}`,
+        error,
+      );
+      return false;
+    }
+  };
+
+  /**
+   * Middleware that only lets the admins of the bot, listed in `ADMIN_USER_IDS`, through.
+   *
+   * @param {Context} ctx The context of the command.
+   * @param {() => Promise<void>} next The next middleware function in the stack.
+   */
+  private readonly requireBotAdmin = async (
+    ctx: Context,
+    next: () => Promise<void>,
+  ) => {
+    if (this.adminUserIds.has(ctx.from?.id)) {
+      await next();
+      return;
+    }
+
+    const t = await this.getMessages(ctx.chat.id);
+
+    ctx.reply(t.adminOnly);
+  };
+
+  /**
+   * Handles the /admin_add_channel command by registering a channel or group, given by its
+   * username or ID, so that the bot serves it. The chat is looked up on Telegram first,
+   * so the bot must be a member of it.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handleAdminAddChannelCommand = async (ctx: Context) => {
+    const [, target] = ctx.text.trim().split(/\s+/);
+    const t = await this.getMessages(ctx.chat.id);
+
+    if (!target) {
+      ctx.reply(t.adminAddChannelUsage);
+      return;
+    }
+
+    const chat = await this.findGroupChat(target);
+
+    if (!chat) {
+      ctx.reply(t.adminChatNotFound(target));
+      return;
+    }
+
+    await this.chatRegistry.add(this.createRegisteredChat(chat));
+
+    this.logger.log(`Chat ${chat.id} registered by ${ctx.from.id}`);
+
+    ctx.reply(t.adminChatAdded(chat.title));
+  };
+
+  /**
+   * Handles the /admin_remove_channel command by removing a channel or group, given by its
+   * username or ID, from the registry. Its subscriptions and settings are deleted too,
+   * so it no longer receives price updates.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handleAdminRemoveChannelCommand = async (ctx: Context) => {
+    const [, target] = ctx.text.trim().split(/\s+/);
+    const t = await this.getMessages(ctx.chat.id);
+
+    if (!target) {
+      ctx.reply(t.adminRemoveChannelUsage);
+      return;
+    }
+
+    const username = target.replace(/^@/, '').toLowerCase();
+    const registeredChat = (await this.chatRegistry.list()).find(
+      ({ id, username: chatUsername }) =>
+        String(id) === target || chatUsername?.toLowerCase() === username,
+    );
+
+    if (!registeredChat) {
+      ctx.reply(t.adminChatNotRegistered(target));
+      return;
+    }
+
+    await this.chatRegistry.remove(registeredChat.id);
+    await this.chats.delete(registeredChat.id);
+
+    this.logger.log(`Chat ${registeredChat.id} removed by ${ctx.from.id}`);
+
+    ctx.reply(t.adminChatRemoved(registeredChat.title));
+  };
+
+  /**
+   * Handles the /admin_list command by listing the registered channels and groups.
+   *
+   * @param {Context} ctx The context of the message.
+   */
+  private readonly handleAdminListCommand = async (ctx: Context) => {
+    const t = await this.getMessages(ctx.chat.id);
+    const registeredChats = await this.chatRegistry.list();
+
+    if (registeredChats.length === 0) {
+      ctx.reply(t.adminListEmpty);
+      return;
+    }
+
+    ctx.reply(
+      [
+        t.adminListTitle,
+        ...registeredChats.map(
+          ({ id, title, username }) =>
+            `• ${title}${username ? ` (@${username})` : ''} - ${id}`,
+        ),
+      ].join(' \n'),
+    );
+  };
+
+  /**
+   * Registers the channels and groups listed in the comma-separated `SEED_CHATS` environment
+   * variable (usernames or chat IDs) when the registry is empty, i.e. on the first start
+   * with a registry, so that the channels of the former hard-coded allow-list keep being served.
+   * The chats are looked up on Telegram like with /admin_add_channel; those not found are skipped.
+   */
+  private readonly seedChatRegistry = async () => {
+    const targets = (process.env.SEED_CHATS ?? '')
+      .split(',')
+      .map((target) => target.trim())
+      .filter(Boolean);
+
+    if (targets.length === 0 || (await this.chatRegistry.list()).length > 0) {
+      return;
+    }
+
+    for (const target of targets) {
+      const chat = await this.findGroupChat(target);
+
+      if (!chat) {
+        this.logger.warn(`Chat ${target} of SEED_CHATS not found, skipping`);
+        continue;
+      }
+
+      await this.chatRegistry.add(this.createRegisteredChat(chat));
+
+      this.logger.log(`Chat ${chat.id} registered from SEED_CHATS`);
+    }
+  };
+
+  /**
+   * Looks up a channel or group on Telegram. The bot must be a member of it.
+   *
+   * @param {string} target The username (e.g. '@PricePulse30') or the ID of the chat.
+   *
+   * @returns The chat, or `undefined` if it was not found or is a private chat.
+   */
+  private readonly findGroupChat = async (target: string) => {
+    const chat = await this.bot.telegram
+      .getChat(/^-?\d+$/.test(target) ? Number(target) : target)
+      .catch(() => undefined);
+
+    return chat && chat.type !== 'private' ? chat : undefined;
+  };
+
+  /**
+   * Creates the registry entry of a channel or group.
+   *
+   * @param chat The Telegram chat.
+   *
+   * @returns {RegisteredChat} The registry entry, registered now.
+   */
+  private readonly createRegisteredChat = (
+    chat:
+      | TelegramChat.GroupChat
+      | TelegramChat.SupergroupChat
+      | TelegramChat.ChannelChat,
+  ): RegisteredChat => ({
+    id: chat.id,
+    type: chat.type,
+    title: chat.title,
+    username: 'username' in chat ? chat.username : undefined,
+    addedAt: Date.now(),
+  });
+
+  /**
+   * Returns the message catalogue in the language of a chat.
+   *
+   * @param {number} chatId The ID of the chat.
+   *
+   * @returns {Promise<Messages>} The messages of the chat's language.
+   */
+  private readonly getMessages = async (chatId: number): Promise<Messages> => {
+    const { language } = await this.chats.get(chatId);
+
+    return this.i18n.get(language);
+  };
+
+  /**
+   * Handles incoming channel posts, as Telegraf does not match commands in them.
+   *
+   * @param {Context} ctx The context object containing information about the incoming channel post.
+   *
+   * The function performs the following steps:
+   * 1. Extracts the command from the text of the channel post, ignoring posts that are not
+   *    commands or that address another bot (e.g. `/price@OtherBot`).
+   * 2. For /start, sends a welcome message and a currency selection keyboard to the channel.
+   * 3. For any other command, runs the same handlers as for messages (see `command`).
+   *    Admin checks pass, as channel posts are sent on behalf of the channel itself.
+   *
+   * The welcome message provides information about the Price Pulse bot and instructions on how to get started.
+   * The currency selection keyboard allows users to enable or disable their preferred currencies.
+   */
+  private readonly handleChannelPost = async (ctx: Context) => {
+    const chatId = ctx.channelPost.chat.id;
+    const text = 'text' in ctx.channelPost ? ctx.channelPost.text : '';
+    const [, command, username] =
+      /^\/(\w+)(?:@(\w+))?(?:\s|$)/.exec(text) ?? [];
+
+    if (
+      !command ||
+      (username &&
+        username.toLowerCase() !== ctx.botInfo.username.toLowerCase())
+    ) {
+      return;
+    }
+
+    if (command === 'start') {
+      const { language, interval } = await this.chats.get(chatId);
+      const t = this.i18n.get(language);
+
+      ctx.reply(t.welcome(true, t.interval(interval)));
+      ctx.reply(t.selectCurrencies, await this.createCurrencyKeyboard(chatId));
+    } else {
+      await this.channelCommands.get(command)?.(ctx, async () => undefined);
+    }
+  };
+
+  /**
+   * Handles the /start command for the bot.
+   *
+   * This method sends a welcome message to the user, introducing them to the Price Pulse bot.
+   * The message includes instructions on how to subscribe to currency price updates and how to
+   * select the currencies they are interested in, and the update interval of the chat.
+   *
+   * @param {Context} ctx The context object provided by the bot framework, which includes information
+   *              about the message and the user.
+   */
+  private readonly handleStartCommand = async (ctx: Context) => {
+    const { language, interval } = await this.chats.get(ctx.chat.id);
+    const t = this.i18n.get(language);
+
+    ctx.reply(t.welcome(false, t.interval(interval)));
+  };
+
+  /**
+   * Handles the /subscribe command from the user.
+   * Sends a message prompting the user to select their preferred currencies.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat and user.
+   */
+  private readonly handleSubscribeCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const t = await this.getMessages(chatId);
+
+    ctx.reply(t.selectCurrencies, await this.createCurrencyKeyboard(chatId));
+  };
+
+  /**
+   * Handles the unsubscribe command from the user.
+   *
+   * This method is triggered when a user sends an unsubscribe command.
+   * It retrieves the user's chat ID from the context, updates the user's
+   * subscription status by clearing the set of subscribed currencies,
+   * and sends a confirmation message to the user.
+   *
+   * @param {Context} ctx The context object containing information about the chat and message.
+   */
+  private readonly handleUnsubscribeCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const user = await this.chats.get(chatId);
+    await this.chats.set(chatId, { ...user, subscribedCurrencies: new Set() });
+    ctx.reply(this.i18n.get(user.language).unsubscribed);
+  };
+
+  /**
+   * Handles the action of toggling a currency subscription for a chat.
+   *
+   * This method is triggered when a user interacts with the currency selection
+   * interface. It updates the user's subscribed currencies by either adding or
+   * removing the selected currency from their subscription list.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework, which
+   *              includes information about the chat and the action performed.
+   *
+   * @remarks
+   * - The method retrieves the chat ID and the selected currency from the context.
+   * - It then updates the list of subscribed currencies for the chat, unless the currency
+   *   is not in the market catalogue (e.g. on a keyboard sent before it was removed).
+   * - Finally, it updates the message text to reflect the current state of the
+   *   user's currency subscriptions.
+   */
+  private readonly handleToggleCurrencyAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const currency = (ctx as any).match[1];
+    const { subscribedCurrencies, ...rest } = await this.chats.get(chatId);
+    const t = this.i18n.get(rest.language);
+
+    // The keyboard may predate a market being removed from the catalogue.
+    if (!this.markets.has(currency)) {
+      ctx.answerCbQuery(t.currencyUnavailable);
+      return;
+    }
+
+    const updatedSubscribedCurrencies = new Set(subscribedCurrencies);
+
+    if (subscribedCurrencies.has(currency)) {
+      updatedSubscribedCurrencies.delete(currency);
+    } else {
+      updatedSubscribedCurrencies.add(currency);
+    }
+
+    await this.chats.set(chatId, {
+      ...rest,
+      subscribedCurrencies: updatedSubscribedCurrencies,
+    });
+
+    const { quote } = this.markets.get(currency);
+    const page = Math.floor(
+      this.markets
+        .listByQuote(quote)
+        .findIndex(({ symbol }) => symbol === currency) / CURRENCIES_PER_PAGE,
+    );
+
+    ctx.editMessageText(
+      t.selectCurrencies,
+      await this.createCurrencyKeyboard(chatId, quote, page),
+    );
+  };
+
+  /**
+   * Handles the navigation between the quote currency groups and pages
+   * of the currency selection keyboard.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework,
+   *              which includes the selected quote currency and page.
+   */
+  private readonly handleCurrencyPageAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const [, quote, page] = (ctx as any).match;
+    const t = await this.getMessages(chatId);
+
+    ctx.editMessageText(
+      t.selectCurrencies,
+      await this.createCurrencyKeyboard(chatId, quote, Number(page)),
+    );
+  };
+
+  /**
+   * Handles the confirmation of selected currencies by the user.
+   *
+   * This method checks if the user has selected at least one currency. If no currencies are selected,
+   * it sends a warning message to the user. If there are selected currencies, it deletes the current
+   * message and replies with a confirmation message listing the selected currencies. Additionally,
+   * it informs the user how often they will receive price updates for these currencies.
+   *
+   * @param {Context} ctx The context object containing information about the chat and the user's interaction.
+   */
+  private readonly handleConfirmCurrencyAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const { subscribedCurrencies, interval, language } =
+      await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+
+    if (subscribedCurrencies.size === 0) {
+      ctx.answerCbQuery(t.selectAtLeastOneCurrency);
+    } else {
+      ctx.deleteMessage();
+      ctx.reply(
+        t.currenciesConfirmed(
+          Array.from(subscribedCurrencies).join(', '),
+          t.interval(interval),
+        ),
+      );
+    }
+  };
+
+  /**
+   * Handles the /interval command by sending an inline keyboard of the allowed update intervals.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat.
+   */
+  private readonly handleIntervalCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const t = await this.getMessages(chatId);
+
+    ctx.reply(t.intervalPrompt, await this.createIntervalKeyboard(chatId));
+  };
+
+  /**
+   * Handles the action of selecting an update interval for a chat.
+   * Intervals that are not in the list of allowed intervals are ignored.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework,
+   *              which includes the selected interval in minutes.
+   */
+  private readonly handleSetIntervalAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const interval = Number((ctx as any).match[1]);
+    const chat = await this.chats.get(chatId);
+    const t = this.i18n.get(chat.language);
+
+    if (!INTERVALS.includes(interval)) {
+      ctx.answerCbQuery(t.intervalUnavailable);
+      return;
+    }
+
+    await this.chats.set(chatId, { ...chat, interval });
+
+    ctx.editMessageText(t.intervalSet(t.interval(interval)));
+  };
+
+  /**
+   * Handles the /digestprice command by sending an inline keyboard to choose
+   * whether price updates report the best bid, the best ask or the mid price.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat.
+   */
+  private readonly handleDigestPriceCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const t = await this.getMessages(chatId);
+
+    ctx.reply(t.priceSidePrompt, await this.createPriceSideKeyboard(chatId));
+  };
+
+  /**
+   * Handles the action of selecting the side of the order book price updates report.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework,
+   *              which includes the selected side.
+   */
+  private readonly handleSetPriceSideAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const priceSide = (ctx as any).match[1] as PriceSide;
+    const chat = await this.chats.get(chatId);
+    const t = this.i18n.get(chat.language);
+
+    await this.chats.set(chatId, { ...chat, priceSide });
+
+    ctx.editMessageText(t.priceSideSet(t.priceSides[priceSide]));
+  };
+
+  /**
+   * Handles the /digesttemplate command by sending an inline keyboard to choose
+   * the template of the price updates of the chat.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat.
+   */
+  private readonly handleDigestTemplateCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const t = await this.getMessages(chatId);
+
+    ctx.reply(
+      t.digestTemplatePrompt,
+      await this.createDigestTemplateKeyboard(chatId),
+    );
+  };
+
+  /**
+   * Handles the action of selecting the template of the price updates of the chat.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework,
+   *              which includes the selected template.
+   */
+  private readonly handleSetDigestTemplateAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const digestTemplate = (ctx as any).match[1] as DigestTemplate;
+    const chat = await this.chats.get(chatId);
+    const t = this.i18n.get(chat.language);
+
+    await this.chats.set(chatId, { ...chat, digestTemplate });
+
+    ctx.editMessageText(t.digestTemplateSet(t.digestTemplates[digestTemplate]));
+  };
+
+  /**
+   * Handles the /liveticker command, which toggles whether price updates edit a single
+   * pinned message instead of posting new ones. Turning it off unpins the live message.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat.
+   */
+  private readonly handleLiveTickerCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const chat = await this.chats.get(chatId);
+    const liveTicker = !chat.liveTicker;
+    const t = this.i18n.get(chat.language);
+
+    if (!liveTicker && chat.liveMessageId) {
+      await this.bot.telegram
+        .unpinChatMessage(chatId, chat.liveMessageId)
+        .catch((error) =>
+          this.logger.warn(
+            `Failed to unpin the live message in chat ${chatId}: ${error.message}`,
+          ),
+        );
+    }
+
+    await this.chats.set(chatId, { ...chat, liveTicker, liveMessageId: null });
+
+    ctx.reply(liveTicker ? t.liveTickerOn : t.liveTickerOff);
+  };
+
+  /**
+   * Handles the /volatility command by sending an inline keyboard to turn sudden price move
+   * notifications on or off, and to choose how large a move and within how long.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat.
+   */
+  private readonly handleVolatilityCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+
+    ctx.reply(
+      await this.createVolatilityPrompt(chatId),
+      await this.createVolatilityKeyboard(chatId),
+    );
+  };
+
+  /**
+   * Handles the action of selecting the threshold or the time window of sudden price move
+   * notifications. Selecting either turns the notifications on, with the default for the other.
+   * Values that are not in the lists of allowed values are ignored.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework,
+   *              which includes the setting and its selected value.
+   */
+  private readonly handleSetVolatilityAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const setting = (ctx as any).match[1] as 'threshold' | 'window';
+    const value = Number((ctx as any).match[2]);
+    const chat = await this.chats.get(chatId);
+    const { threshold, window } = chat.volatilityAlert ?? {
+      threshold: VOLATILITY_THRESHOLDS[1],
+      window: DEFAULT_VOLATILITY_WINDOW,
+    };
+    const volatilityAlert = {
+      threshold:
+        setting === 'threshold' && VOLATILITY_THRESHOLDS.includes(value)
+          ? value
+          : threshold,
+      window:
+        setting === 'window' && VOLATILITY_WINDOWS.includes(value)
+          ? value
+          : window,
+    };
+
+    await this.chats.set(chatId, { ...chat, volatilityAlert });
+
+    ctx.editMessageText(
+      await this.createVolatilityPrompt(chatId),
+      await this.createVolatilityKeyboard(chatId),
+    );
+  };
+
+  /**
+   * Handles the action of turning sudden price move notifications off.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework.
+   */
+  private readonly handleVolatilityOffAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const chat = await this.chats.get(chatId);
+
+    await this.chats.set(chatId, { ...chat, volatilityAlert: null });
+
+    ctx.editMessageText(
+      await this.createVolatilityPrompt(chatId),
+      await this.createVolatilityKeyboard(chatId),
+    );
+  };
+
+  /**
+   * Creates the text of the /volatility message, describing the current setting.
+   *
+   * @param {number} chatId The ID of the chat.
+   *
+   * @returns {Promise<string>} The text.
+   */
+  private readonly createVolatilityPrompt = async (
+    chatId: number,
+  ): Promise<string> => {
+    const { volatilityAlert, language } = await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+
+    return `${t.volatilityPrompt} \n\n${
+      volatilityAlert
+        ? t.volatilityCurrent(
+            this.formatVolatilityThreshold(volatilityAlert.threshold, language),
+            t.interval(volatilityAlert.window),
+          )
+        : t.volatilityDisabled
+    }`;
+  };
+
+  /**
+   * Formats the threshold of sudden price move notifications, e.g. `±2%`.
+   *
+   * @param {number} threshold The threshold, in percent.
+   * @param {Language} language The language whose digits are used.
+   *
+   * @returns {string} The formatted threshold.
+   */
+  private readonly formatVolatilityThreshold = (
+    threshold: number,
+    language: Language,
+  ): string => {
+    const percentFormatter = new Intl.NumberFormat(
+      this.i18n.localizeLocale(LANGUAGES.get(language).locale, language),
+      { style: 'percent', maximumFractionDigits: 2 },
+    );
+
+    return `±${percentFormatter.format(threshold / 100)}`;
+  };
+
+  /**
+   * Handles the /language command by sending an inline keyboard to choose
+   * the language of the bot and the calendar of the dates in price updates.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat.
+   */
+  private readonly handleLanguageCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const t = await this.getMessages(chatId);
+
+    ctx.reply(t.languagePrompt, await this.createLanguageKeyboard(chatId));
+  };
+
+  /**
+   * Handles the action of selecting the language of a chat.
+   * The message is updated in the new language.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework,
+   *              which includes the selected language.
+   */
+  private readonly handleSetLanguageAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const language = (ctx as any).match[1] as Language;
+    const chat = await this.chats.get(chatId);
+
+    if (LANGUAGES.has(language)) {
+      await this.chats.set(chatId, { ...chat, language });
+    }
+
+    const t = this.i18n.get(language);
+
+    ctx.editMessageText(
+      `${t.languageSet} \n\n${t.languagePrompt}`,
+      await this.createLanguageKeyboard(chatId),
+    );
+  };
+
+  /**
+   * Handles the action of selecting the calendar of the dates shown to a chat.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework,
+   *              which includes the selected calendar.
+   */
+  private readonly handleSetCalendarAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const calendar = (ctx as any).match[1] as Calendar;
+    const chat = await this.chats.get(chatId);
+    const t = this.i18n.get(chat.language);
+
+    await this.chats.set(chatId, { ...chat, calendar });
+
+    ctx.editMessageText(
+      `${t.calendarSet(calendar === 'persian' ? t.calendarPersian : t.calendarGregorian)} \n\n${t.languagePrompt}`,
+      await this.createLanguageKeyboard(chatId),
+    );
+  };
+
+  /**
+   * Creates an inline keyboard markup for selecting the language and calendar of a chat.
+   * The current choices are marked with ⭕.
+   *
+   * @param {number} chatId The ID of the chat for which the keyboard is being created.
+   *
+   * @returns {Promise<Markup.Markup<InlineKeyboardMarkup>>} A Markup object containing the inline keyboard with language and calendar buttons.
+   */
+  private readonly createLanguageKeyboard = async (
+    chatId: number,
+  ): Promise<Markup.Markup<InlineKeyboardMarkup>> => {
+    const { language, calendar } = await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+    const mark = (isActive: boolean, label: string) =>
+      isActive ? `⭕ ${label}` : label;
+
+    return Markup.inlineKeyboard([
+      Array.from(LANGUAGES).map(([key, { label }]) =>
+        Markup.button.callback(
+          mark(key === language, label),
+          `set_language_${key}`,
+        ),
+      ),
+      [
+        Markup.button.callback(
+          mark(calendar === 'gregorian', t.calendarGregorian),
+          'set_calendar_gregorian',
+        ),
+        Markup.button.callback(
+          mark(calendar === 'persian', t.calendarPersian),
+          'set_calendar_persian',
+        ),
+      ],
+    ]);
+  };
+
+  /**
+   * Handles the /chart command by replying with a PNG line chart of a currency's price history,
+   * on the side of the order book chosen for the chat.
+   *
+   * The command expects a currency pair and an optional time range (24h, 7d or 30d),
+   * e.g. `/chart BTCIRT 7d`. If the arguments are invalid, a usage message is sent instead.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handleChartCommand = async (ctx: Context) => {
+    const [, symbol = '', range = '24h'] = ctx.text.trim().split(/\s+/);
+    const currency = symbol.toUpperCase();
+    const { language, calendar, priceSide } = await this.chats.get(ctx.chat.id);
+    const t = this.i18n.get(language);
+
+    if (!this.markets.has(currency) || !CHART_RANGES.has(range)) {
+      ctx.reply(t.chartUsage(Array.from(CHART_RANGES.keys()).join('|')));
+      return;
+    }
+
+    const chart = await this.createPriceChart(
+      currency,
+      priceSide,
+      range,
+      language,
+      calendar,
+    );
+
+    if (!chart) {
+      ctx.reply(t.chartNotEnoughHistory(currency));
+      return;
+    }
+
+    ctx.replyWithPhoto(
+      { source: chart },
+      {
+        caption: `${this.formatPriceTitle(currency, priceSide, language)} - ${range}`,
+      },
+    );
+  };
+
+  /**
+   * Handles the /price command by replying immediately with the latest prices.
+   *
+   * With a currency pair (e.g. `/price BTCIRT`), only that price is sent.
+   * Without one, the prices of all currencies the chat is subscribed to are sent.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handlePriceCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const [, symbol] = ctx.text.trim().split(/\s+/);
+    const { subscribedCurrencies, language, calendar, priceSide } =
+      await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+    let currencies: string[];
+
+    if (symbol) {
+      const currency = symbol.toUpperCase();
+
+      if (!this.markets.has(currency)) {
+        ctx.reply(t.priceUsage(this.listMarketSymbols()));
+        return;
+      }
+
+      currencies = [currency];
+    } else {
+      currencies = Array.from(subscribedCurrencies).filter((currency) =>
+        this.markets.has(currency),
+      );
+
+      if (currencies.length === 0) {
+        ctx.reply(t.priceNotSubscribed);
+        return;
+      }
+    }
+
+    const currencyMessages = await Promise.all(
+      currencies.map((currency) =>
+        this.createOnDemandPriceMessage(currency, priceSide, language),
+      ),
+    );
+
+    currencyMessages.unshift(
+      t.header(
+        this.getFormattedUTCDate(
+          language,
+          calendar,
+          new Date(this.clock.now()),
+        ),
+      ),
+    );
+
+    ctx.reply(currencyMessages.join('\n-------------------------------- \n'));
+  };
+
+  /**
+   * Handles the /book command, which shows the best bid, the best ask, the spread
+   * and the mid price of a currency pair, along with the volume of the top levels
+   * on each side of its order book, e.g. `/book BTCIRT 10`.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handleBookCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const [, symbol = '', count = `${DEFAULT_BOOK_LEVELS}`] = ctx.text
+      .trim()
+      .split(/\s+/);
+    const currency = symbol.toUpperCase();
+    const levels = Number(count);
+    const { language } = await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+
+    if (
+      !this.markets.has(currency) ||
+      !Number.isInteger(levels) ||
+      levels < 1 ||
+      levels > MAX_BOOK_LEVELS
+    ) {
+      ctx.reply(t.bookUsage(this.listMarketSymbols()));
+      return;
+    }
+
+    let book: OrderBook;
+    let source: string;
+
+    try {
+      ({ book, source } = await this.priceService.getOrderBook(currency));
+    } catch (error) {
+      this.logger.error(`Error fetching order book for ${currency}:`, error);
+      ctx.reply(t.bookError(currency));
+      return;
+    }
+
+    const [bid] = book.bids;
+    const [ask] = book.asks;
+
+    if (!bid || !ask) {
+      ctx.reply(t.bookError(currency));
+      return;
+    }
+
+    const { base, to } = this.markets.get(currency);
+    const currencyFormatter = this.createCurrencyFormatter(to, language);
+    const locale = this.i18n.localizeLocale(to.locale, language);
+    const percentFormatter = new Intl.NumberFormat(locale, {
+      style: 'percent',
+      maximumFractionDigits: 2,
+    });
+    const amountFormatter = new Intl.NumberFormat(locale, {
+      maximumFractionDigits: 8,
+    });
+    const mid = (bid.price + ask.price) / 2;
+    const spread = ask.price - bid.price;
+    const formatDepth = (side: OrderBookLevel[]) => {
+      const { amount, value } = this.sumOrderBookLevels(side.slice(0, levels));
+
+      return [
+        `${amountFormatter.format(amount)} ${base}`,
+        currencyFormatter.format(value),
+      ] as const;
+    };
+
+    ctx.reply(
+      [
+        t.bookTitle(currency, source),
+        t.bestBid(currencyFormatter.format(bid.price)),
+        t.bestAsk(currencyFormatter.format(ask.price)),
+        t.spread(
+          currencyFormatter.format(spread),
+          percentFormatter.format(spread / mid),
+        ),
+        t.midPrice(currencyFormatter.format(mid)),
+        '',
+        t.depth(amountFormatter.format(levels)),
+        t.depthBids(...formatDepth(book.bids)),
+        t.depthAsks(...formatDepth(book.asks)),
+      ].join('\n'),
+    );
+  };
+
+  /**
+   * Handles the /convert command, which converts an amount of one asset into another
+   * at the latest mid prices, e.g. `/convert 150 USDT IRT` or `/convert 0.05 BTC USDT`.
+   * Assets without a market between them are converted through bridge assets
+   * (e.g. BTC → IRT → USDT). The amount may be typed in Persian digits.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handleConvertCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const [, value = '', fromSymbol = '', toSymbol = ''] = ctx.text
+      .trim()
+      .split(/\s+/);
+    const amount = this.i18n.parseNumber(value);
+    const [from, to] = [fromSymbol, toSymbol].map((symbol) =>
+      symbol.toUpperCase(),
+    );
+    const fromCurrency = this.markets.getCurrency(from);
+    const toCurrency = this.markets.getCurrency(to);
+    const { language } = await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+
+    if (!(amount > 0) || !fromCurrency || !toCurrency) {
+      ctx.reply(t.convertUsage(this.markets.listAssets().join(', ')));
+      return;
+    }
+
+    const steps = this.markets.findConversion(from, to);
+
+    if (!steps) {
+      ctx.reply(t.convertNoRoute(from, to));
+      return;
+    }
+
+    let converted: number;
+
+    try {
+      converted = await this.convertAmount(
+        amount,
+        steps,
+        async (symbol) =>
+          (await this.priceService.getPrice(symbol, 'mid')).price,
+      );
+    } catch (error) {
+      this.logger.error(`Error converting ${from} to ${to}:`, error);
+      ctx.reply(t.convertError(from, to));
+      return;
+    }
+
+    const route = steps.reduce(
+      (assets, { market, inverse }) => [
+        ...assets,
+        inverse ? market.base : market.quote,
+      ],
+      [from],
+    );
+
+    ctx.reply(
+      [
+        t.convertResult(
+          this.createCurrencyFormatter(fromCurrency, language).format(amount),
+          this.createCurrencyFormatter(toCurrency, language).format(converted),
+        ),
+        ...(route.length > 2 ? [t.convertRoute(route.join(' → '))] : []),
+        t.convertBasis,
+      ].join('\n'),
+    );
+  };
+
+  /**
+   * Converts an amount of an asset into another asset along a conversion route.
+   *
+   * @param {number} amount The amount to convert.
+   * @param {ConversionStep[]} steps The route, as found by `MarketService.findConversion`.
+   * @param getPrice Looks up the price of a market, or `undefined` if it is not known.
+   *
+   * @returns {Promise<number | undefined>} The converted amount, or `undefined` if the price
+   *              of a market on the route is not known.
+   */
+  private readonly convertAmount = async (
+    amount: number,
+    steps: ConversionStep[],
+    getPrice: (symbol: string) => Promise<number | undefined>,
+  ): Promise<number | undefined> => {
+    let converted = amount;
+
+    for (const { market, inverse } of steps) {
+      const price = await getPrice(market.symbol);
+
+      if (price === undefined) {
+        return undefined;
+      }
+
+      converted = inverse ? converted / price : converted * price;
+    }
+
+    return converted;
+  };
+
+  /**
+   * Handles the /portfolio command, which manages the holdings of a chat:
+   * - `/portfolio` shows the holdings and their value.
+   * - `/portfolio add BTC 0.12` adds to a holding.
+   * - `/portfolio remove BTC [amount]` removes a holding, or part of it.
+   * - `/portfolio digest` toggles the value of the portfolio in price updates.
+   *
+   * Only chat administrators can change the portfolio.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handlePortfolioCommand = async (ctx: Context) => {
+    const [, action = '', symbol = '', value = ''] = ctx.text
+      .trim()
+      .split(/\s+/);
+    const asset = symbol.toUpperCase();
+
+    switch (action.toLowerCase()) {
+      case '':
+        return this.sendPortfolio(ctx);
+      case 'add':
+        return this.requireChatAdmin(ctx, () =>
+          this.addHolding(ctx, asset, value),
+        );
+      case 'remove':
+        return this.requireChatAdmin(ctx, () =>
+          this.removeHolding(ctx, asset, value),
+        );
+      case 'digest':
+        return this.requireChatAdmin(ctx, () =>
+          this.togglePortfolioDigest(ctx),
+        );
+      default:
+        return this.replyPortfolioUsage(ctx);
+    }
+  };
+
+  /**
+   * Sends the holdings of a chat and their value at the latest prices,
+   * taken from the side of the order book the price updates of the chat report.
+   *
+   * @param {Context} ctx The context of the message.
+   */
+  private readonly sendPortfolio = async (ctx: Context) => {
+    const { portfolio, language, priceSide } = await this.chats.get(
+      ctx.chat.id,
+    );
+
+    ctx.reply(
+      await this.createPortfolioMessage(portfolio, language, async (symbol) => {
+        try {
+          return (await this.priceService.getPrice(symbol, priceSide)).price;
+        } catch (error) {
+          this.logger.error(`Error fetching price for ${symbol}:`, error);
+          return undefined;
+        }
+      }),
+    );
+  };
+
+  /**
+   * Adds an amount of an asset to the portfolio of a chat.
+   *
+   * @param {Context} ctx The context of the message.
+   * @param {string} asset The asset (e.g. 'BTC').
+   * @param {string} value The amount to add, as typed by the user.
+   */
+  private readonly addHolding = async (
+    ctx: Context,
+    asset: string,
+    value: string,
+  ) => {
+    const chatId = ctx.chat.id;
+    const amount = this.i18n.parseNumber(value);
+
+    if (!this.markets.getCurrency(asset) || !(amount > 0)) {
+      return this.replyPortfolioUsage(ctx);
+    }
+
+    const { portfolio, ...rest } = await this.chats.get(chatId);
+    const t = this.i18n.get(rest.language);
+    const held = portfolio.find((holding) => holding.asset === asset);
+    const holding: Holding = {
+      asset,
+      amount: Number(((held?.amount ?? 0) + amount).toFixed(8)),
+    };
+
+    await this.chats.set(chatId, {
+      ...rest,
+      portfolio: held
+        ? portfolio.map((other) => (other === held ? holding : other))
+        : [...portfolio, holding],
+    });
+
+    ctx.reply(
+      t.portfolioUpdated(
+        asset,
+        this.formatAmount(holding.amount, asset, rest.language),
+      ),
+    );
+  };
+
+  /**
+   * Removes an asset, or part of it, from the portfolio of a chat.
+   *
+   * @param {Context} ctx The context of the message.
+   * @param {string} asset The asset (e.g. 'BTC').
+   * @param {string} value The amount to remove, as typed by the user, or an empty string to remove the whole holding.
+   */
+  private readonly removeHolding = async (
+    ctx: Context,
+    asset: string,
+    value: string,
+  ) => {
+    const chatId = ctx.chat.id;
+    const amount = value ? this.i18n.parseNumber(value) : Infinity;
+
+    if (!asset || !(amount > 0)) {
+      return this.replyPortfolioUsage(ctx);
+    }
+
+    const { portfolio, ...rest } = await this.chats.get(chatId);
+    const t = this.i18n.get(rest.language);
+    const held = portfolio.find((holding) => holding.asset === asset);
+
+    if (!held) {
+      ctx.reply(t.portfolioNotHeld(asset));
+      return;
+    }
+
+    const remaining = Number(
+      (held.amount - Math.min(amount, held.amount)).toFixed(8),
+    );
+
+    await this.chats.set(chatId, {
+      ...rest,
+      portfolio:
+        remaining > 0
+          ? portfolio.map((other) =>
+              other === held ? { asset, amount: remaining } : other,
+            )
+          : portfolio.filter((other) => other !== held),
+    });
+
+    ctx.reply(
+      remaining > 0
+        ? t.portfolioUpdated(
+            asset,
+            this.formatAmount(remaining, asset, rest.language),
+          )
+        : t.portfolioRemoved(asset),
+    );
+  };
+
+  /**
+   * Toggles whether the value of the portfolio of a chat is included in its price updates.
+   *
+   * @param {Context} ctx The context of the message.
+   */
+  private readonly togglePortfolioDigest = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const chat = await this.chats.get(chatId);
+    const portfolioDigest = !chat.portfolioDigest;
+
+    const t = this.i18n.get(chat.language);
+
+    await this.chats.set(chatId, { ...chat, portfolioDigest });
+
+    ctx.reply(portfolioDigest ? t.portfolioDigestOn : t.portfolioDigestOff);
+  };
+
+  /**
+   * Replies with the usage of the /portfolio command.
+   *
+   * @param {Context} ctx The context of the message.
+   */
+  private readonly replyPortfolioUsage = async (ctx: Context) => {
+    const t = await this.getMessages(ctx.chat.id);
+
+    ctx.reply(t.portfolioUsage(this.markets.listAssets().join(', ')));
+  };
+
+  /**
+   * Lists the assets the total value of portfolios is expressed in, among those the markets trade.
+   *
+   * @returns {string[]} The assets, e.g. `['IRT', 'USDT']`.
+   */
+  private readonly listPortfolioTotalAssets = (): string[] =>
+    PORTFOLIO_TOTAL_ASSETS.filter((asset) => this.markets.getCurrency(asset));
+
+  /**
+   * Lists the markets whose prices are needed to value a portfolio.
+   *
+   * @param {Holding[]} portfolio The holdings.
+   *
+   * @returns {string[]} The market symbols.
+   */
+  private readonly listPortfolioMarkets = (portfolio: Holding[]): string[] =>
+    Array.from(
+      new Set(
+        portfolio.flatMap(({ asset }) =>
+          this.listPortfolioTotalAssets().flatMap((total) =>
+            (this.markets.findConversion(asset, total) ?? []).map(
+              ({ market }) => market.symbol,
+            ),
+          ),
+        ),
+      ),
+    );
+
+  /**
+   * Creates the message describing a portfolio: the value of each holding,
+   * the total value in each of `PORTFOLIO_TOTAL_ASSETS` and, given the earlier prices,
+   * the change in value since then.
+   *
+   * @param {Holding[]} portfolio The holdings.
+   * @param {Language} language The language of the message.
+   * @param getPrice Looks up the current price of a market, or `undefined` if it is not known.
+   * @param getPreviousPrice Looks up the earlier price of a market, or `undefined` if it is not known.
+   *
+   * @returns {Promise<string>} The message.
+   */
+  private readonly createPortfolioMessage = async (
+    portfolio: Holding[],
+    language: Language,
+    getPrice: (symbol: string) => Promise<number | undefined>,
+    getPreviousPrice?: (symbol: string) => Promise<number | undefined>,
+  ): Promise<string> => {
+    const t = this.i18n.get(language);
+
+    if (portfolio.length === 0) {
+      return t.portfolioEmpty;
+    }
+
+    const totalAssets = this.listPortfolioTotalAssets();
+    const formatters = totalAssets.map((asset) =>
+      this.createCurrencyFormatter(this.markets.getCurrency(asset), language),
+    );
+    const totals = totalAssets.map(() => 0);
+    let currentValue = 0;
+    let previousValue = 0;
+    const lines = [t.portfolioTitle];
+
+    for (const { asset, amount } of portfolio) {
+      const amountText = this.formatAmount(amount, asset, language);
+      const values = await Promise.all(
+        totalAssets.map((total) =>
+          this.convertAmount(
+            amount,
+            this.markets.findConversion(asset, total) ?? [],
+            getPrice,
+          ),
+        ),
+      );
+
+      values.forEach((value, i) => (totals[i] += value ?? 0));
+
+      if (values[0] === undefined) {
+        lines.push(t.portfolioUnpriced(amountText));
+        continue;
+      }
+
+      lines.push(
+        t.portfolioHolding(amountText, formatters[0].format(values[0])),
+      );
+
+      const previous =
+        getPreviousPrice &&
+        (await this.convertAmount(
+          amount,
+          this.markets.findConversion(asset, totalAssets[0]) ?? [],
+          getPreviousPrice,
+        ));
+
+      if (previous !== undefined) {
+        currentValue += values[0];
+        previousValue += previous;
+      }
+    }
+
+    lines.push(
+      t.portfolioTotal(
+        totals.map((total, i) => formatters[i].format(total)).join(' | '),
+      ),
+    );
+
+    if (previousValue > 0) {
+      lines.push(
+        t.sinceLastUpdate(
+          this.formatPriceChange(
+            previousValue,
+            currentValue,
+            this.markets.getCurrency(totalAssets[0]),
+            language,
+          ),
+        ),
+      );
+    }
+
+    return lines.join(' \n');
+  };
+
+  /**
+   * Formats an amount of an asset as a plain number followed by the asset, e.g. `0.12 BTC`.
+   *
+   * @param {number} amount The amount.
+   * @param {string} asset The asset.
+   * @param {Language} language The language whose digits are used.
+   *
+   * @returns {string} The formatted amount.
+   */
+  private readonly formatAmount = (
+    amount: number,
+    asset: string,
+    language: Language,
+  ): string => {
+    const locale = this.markets.getCurrency(asset)?.locale ?? 'en-US';
+    const numberFormatter = new Intl.NumberFormat(
+      this.i18n.localizeLocale(locale, language),
+      { maximumFractionDigits: 8 },
+    );
+
+    return `${numberFormatter.format(amount)} ${asset}`;
+  };
+
+  /**
+   * Sums up the amount and the value of levels of an order book.
+   *
+   * @param {OrderBookLevel[]} levels The levels of one side of the order book.
+   *
+   * @returns The total amount, in the base currency, and the total value, in the quote currency.
+   */
+  private readonly sumOrderBookLevels = (
+    levels: OrderBookLevel[],
+  ): { amount: number; value: number } =>
+    levels.reduce(
+      ({ amount, value }, level) => ({
+        amount: amount + level.amount,
+        value: value + level.price * level.amount,
+      }),
+      { amount: 0, value: 0 },
+    );
+
+  /**
+   * Handles inline queries (e.g. `@PricePulse30Bot btc`) by answering with the prices
+   * of the markets whose symbol contains the query, ready to be shared into any chat.
+   * An empty query lists the first markets of the catalogue.
+   * Results are in the Telegram language of the user, as inline queries do not belong to a chat,
+   * and prices are taken from the side of the order book chosen in the private chat of the user, if any.
+   *
+   * @param {Context} ctx The context of the inline query.
+   */
+  private readonly handleInlineQuery = async (ctx: Context) => {
+    const query = ctx.inlineQuery.query.trim().toUpperCase();
+    const language = this.i18n.detectLanguage(ctx.from.language_code);
+    const priceSide = (await this.chats.get(ctx.from.id))?.priceSide ?? 'ask';
+    const t = this.i18n.get(language);
+    const header = t.header(
+      this.getFormattedUTCDate(
+        language,
+        LANGUAGES.get(language).calendar,
+        new Date(this.clock.now()),
+      ),
+    );
+    const markets = this.markets
+      .list()
+      .filter(({ symbol }) => symbol.includes(query))
+      .slice(0, MAX_INLINE_RESULTS);
+
+    const results = await Promise.all(
+      markets.map(async ({ symbol }) => {
+        const message = await this.createOnDemandPriceMessage(
+          symbol,
+          priceSide,
+          language,
+        );
+
+        return {
+          type: 'article' as const,
+          id: symbol,
+          title: symbol,
+          description: message.split('\n')[1],
+          input_message_content: {
+            message_text: `${header}\n-------------------------------- \n${message}`,
+          },
+        };
+      }),
+    );
+
+    ctx.answerInlineQuery(results, { cache_time: INLINE_CACHE_TIME });
+  };
+
+  /**
+   * Fetches the latest price of a currency and creates its message for on-demand requests,
+   * such as the /price command and inline queries.
+   * Like price updates, it falls back to the last known price when fetching fails.
+   *
+   * @param {string} currency The currency pair (e.g. 'BTCIRT').
+   * @param {PriceSide} side The side of the order book to take the price from.
+   * @param {Language} language The language of the message.
+   *
+   * @returns {Promise<string>} The formatted message, or an error message if the price could not be fetched.
+   */
+  private readonly createOnDemandPriceMessage = async (
+    currency: string,
+    side: PriceSide,
+    language: Language,
+  ): Promise<string> => {
+    let quote: Quote;
+
+    try {
+      quote = await this.priceService.getPriceOrLastKnown(currency, side);
+    } catch (error) {
+      this.logger.error(`Error fetching price for ${currency}:`, error);
+    }
+
+    return this.createPriceMessage(
+      currency,
+      quote,
+      new Date(this.clock.now()),
+      language,
+    );
+  };
+
+  /**
+   * Handles the /digestchart command, which toggles whether a small 24-hour chart
+   * of each subscribed currency is attached to the price updates of the chat.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat.
+   */
+  private readonly handleDigestChartCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const chat = await this.chats.get(chatId);
+    const digestChart = !chat.digestChart;
+
+    const t = this.i18n.get(chat.language);
+
+    await this.chats.set(chatId, { ...chat, digestChart });
+
+    ctx.reply(digestChart ? t.digestChartOn : t.digestChartOff);
+  };
+
+  /**
+   * Handles the /quiet command, which sets the daily window during which no scheduled
+   * price updates are sent to the chat, e.g. `/quiet 23:00-08:00`, or turns it off
+   * with `/quiet off`. The window is expressed in the time zone of the chat.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handleQuietCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const chat = await this.chats.get(chatId);
+    const t = this.i18n.get(chat.language);
+    const argument = ctx.text.replace(/^\/\S+/, '').trim();
+
+    if (argument.toLowerCase() === 'off') {
+      await this.chats.set(chatId, { ...chat, quietHours: null });
+      ctx.reply(t.quietOff);
+      return;
+    }
+
+    const quietHours = parseQuietHours(argument);
+
+    if (!quietHours) {
+      ctx.reply(
+        [
+          ...(chat.quietHours
+            ? [t.quietCurrent(formatQuietHours(chat.quietHours), chat.timeZone)]
+            : []),
+          t.quietUsage(chat.timeZone),
+        ].join(' \n\n'),
+      );
+      return;
+    }
+
+    await this.chats.set(chatId, { ...chat, quietHours });
+
+    ctx.reply(t.quietSet(formatQuietHours(quietHours), chat.timeZone));
+  };
+
+  /**
+   * Handles the /timezone command, which sets the time zone of the chat's quiet hours,
+   * e.g. `/timezone Asia/Tehran`. Without an argument, the current time zone is shown.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handleTimeZoneCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const chat = await this.chats.get(chatId);
+    const t = this.i18n.get(chat.language);
+    const [, timeZone] = ctx.text.trim().split(/\s+/);
+
+    if (!timeZone) {
+      ctx.reply(t.timeZoneUsage(chat.timeZone));
+      return;
+    }
+
+    if (!isValidTimeZone(timeZone)) {
+      ctx.reply(t.timeZoneInvalid(timeZone));
+      return;
+    }
+
+    const resolvedTimeZone = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+    }).resolvedOptions().timeZone;
+
+    await this.chats.set(chatId, { ...chat, timeZone: resolvedTimeZone });
+
+    ctx.reply(t.timeZoneSet(resolvedTimeZone));
+  };
+
+  /**
+   * Handles the /morningsummary command, which toggles whether a summary of the overnight
+   * prices is sent to the chat when its quiet hours end.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat.
+   */
+  private readonly handleMorningSummaryCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const chat = await this.chats.get(chatId);
+    const morningSummary = !chat.morningSummary;
+    const t = this.i18n.get(chat.language);
+
+    await this.chats.set(chatId, { ...chat, morningSummary });
+
+    ctx.reply(
+      morningSummary
+        ? [
+            t.morningSummaryOn,
+            ...(chat.quietHours ? [] : [t.morningSummaryNoQuietHours]),
+          ].join(' \n\n')
+        : t.morningSummaryOff,
+    );
+  };
+
+  /**
+   * Creates an inline keyboard markup for selecting the update interval.
+   * The currently selected interval is marked with ⭕.
+   *
+   * @param {number} chatId The ID of the chat for which the keyboard is being created.
+   *
+   * @returns {Promise<Markup.Markup<InlineKeyboardMarkup>>} A Markup object containing the inline keyboard with interval buttons.
+   */
+  private readonly createIntervalKeyboard = async (
+    chatId: number,
+  ): Promise<Markup.Markup<InlineKeyboardMarkup>> => {
+    const { interval, language } = await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+    const buttons = INTERVALS.map((minutes) =>
+      Markup.button.callback(
+        minutes === interval
+          ? `⭕ ${t.interval(minutes)}`
+          : t.interval(minutes),
+        `set_interval_${minutes}`,
+      ),
+    );
+
+    return Markup.inlineKeyboard(buttons, { columns: 2 });
+  };
+
+  /**
+   * Creates an inline keyboard markup for selecting the side of the order book
+   * price updates report. The currently selected side is marked with ⭕.
+   *
+   * @param {number} chatId The ID of the chat for which the keyboard is being created.
+   *
+   * @returns {Promise<Markup.Markup<InlineKeyboardMarkup>>} A Markup object containing the inline keyboard with side buttons.
+   */
+  private readonly createPriceSideKeyboard = async (
+    chatId: number,
+  ): Promise<Markup.Markup<InlineKeyboardMarkup>> => {
+    const { priceSide, language } = await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+    const buttons = PRICE_SIDES.map((side) =>
+      Markup.button.callback(
+        side === priceSide ? `⭕ ${t.priceSides[side]}` : t.priceSides[side],
+        `set_price_side_${side}`,
+      ),
+    );
+
+    return Markup.inlineKeyboard(buttons, { columns: 1 });
+  };
+
+  /**
+   * Creates an inline keyboard markup for selecting the template of the price updates
+   * of a chat. The currently selected template is marked with ⭕.
+   *
+   * @param {number} chatId The ID of the chat for which the keyboard is being created.
+   *
+   * @returns {Promise<Markup.Markup<InlineKeyboardMarkup>>} A Markup object containing the inline keyboard with template buttons.
+   */
+  private readonly createDigestTemplateKeyboard = async (
+    chatId: number,
+  ): Promise<Markup.Markup<InlineKeyboardMarkup>> => {
+    const { digestTemplate, language } = await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+    const buttons = DIGEST_TEMPLATES.map((template) =>
+      Markup.button.callback(
+        template === digestTemplate
+          ? `⭕ ${t.digestTemplates[template]}`
+          : t.digestTemplates[template],
+        `set_digest_template_${template}`,
+      ),
+    );
+
+    return Markup.inlineKeyboard(buttons, { columns: 1 });
+  };
+
+  /**
+   * Creates an inline keyboard markup for the sudden price move notifications of a chat:
+   * a row of thresholds, a row of time windows and a button to turn them off.
+   * The current settings are marked with ⭕.
+   *
+   * @param {number} chatId The ID of the chat for which the keyboard is being created.
+   *
+   * @returns {Promise<Markup.Markup<InlineKeyboardMarkup>>} A Markup object containing the inline keyboard.
+   */
+  private readonly createVolatilityKeyboard = async (
+    chatId: number,
+  ): Promise<Markup.Markup<InlineKeyboardMarkup>> => {
+    const { volatilityAlert, language } = await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+    const mark = (isActive: boolean, label: string) =>
+      isActive ? `⭕ ${label}` : label;
+
+    return Markup.inlineKeyboard([
+      VOLATILITY_THRESHOLDS.map((threshold) =>
+        Markup.button.callback(
+          mark(
+            threshold === volatilityAlert?.threshold,
+            this.formatVolatilityThreshold(threshold, language),
+          ),
+          `set_volatility_threshold_${threshold}`,
+        ),
+      ),
+      VOLATILITY_WINDOWS.map((window) =>
+        Markup.button.callback(
+          mark(window === volatilityAlert?.window, t.interval(window)),
+          `set_volatility_window_${window}`,
+        ),
+      ),
+      [
+        Markup.button.callback(
+          mark(!volatilityAlert, t.volatilityTurnOff),
+          'volatility_off',
+        ),
+      ],
+    ]);
+  };
+
+  /**
+   * Handles the /alert command, which creates a one-off price alert.
+   *
+   * The command expects a currency pair, a direction and a threshold price,
+   * e.g. `/alert BTCIRT above 6000000000` or `/alert USDTIRT below 900000`.
+   * If the arguments are invalid, a usage message is sent instead.
+   *
+   * @param {Context} ctx The context of the message, which includes the command text.
+   */
+  private readonly handleAlertCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const [, symbol = '', rawDirection = '', value = ''] = ctx.text
+      .trim()
+      .split(/\s+/);
+    const currency = symbol.toUpperCase();
+    const direction = rawDirection.toLowerCase();
+    const price = this.i18n.parseNumber(value);
+    const { alerts, ...rest } = await this.chats.get(chatId);
+    const t = this.i18n.get(rest.language);
+
+    if (
+      !this.markets.has(currency) ||
+      (direction !== 'above' && direction !== 'below') ||
+      !(price > 0)
+    ) {
+      ctx.reply(t.alertUsage(this.listMarketSymbols()));
+      return;
+    }
+
+    const alert: Alert = {
+      id: randomUUID().slice(0, 8),
+      currency,
+      direction,
+      price,
+    };
+    await this.chats.set(chatId, { ...rest, alerts: [...alerts, alert] });
+
+    ctx.reply(t.alertSet(this.formatAlert(alert, rest.language)));
+  };
+
+  /**
+   * Handles the /alerts command by listing the pending price alerts of the chat,
+   * with an inline button to delete each of them.
+   *
+   * @param {Context} ctx The context of the message, which includes information about the chat.
+   */
+  private readonly handleAlertsCommand = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const { alerts, language } = await this.chats.get(chatId);
+
+    if (alerts.length === 0) {
+      ctx.reply(this.i18n.get(language).alertsEmpty);
+      return;
+    }
+
+    ctx.reply(
+      this.createAlertsText(alerts, language),
+      this.createAlertsKeyboard(alerts),
+    );
+  };
+
+  /**
+   * Handles the action of deleting a price alert from the /alerts list.
+   * The list message is updated to reflect the remaining alerts.
+   *
+   * @param {Context} ctx The context object provided by the Telegraf framework,
+   *              which includes the ID of the alert to delete.
+   */
+  private readonly handleDeleteAlertAction = async (ctx: Context) => {
+    const chatId = ctx.chat.id;
+    const alertId = (ctx as any).match[1];
+    const { alerts, ...rest } = await this.chats.get(chatId);
+    const remainingAlerts = alerts.filter(({ id }) => id !== alertId);
+
+    await this.chats.set(chatId, { ...rest, alerts: remainingAlerts });
+
+    if (remainingAlerts.length === 0) {
+      ctx.editMessageText(this.i18n.get(rest.language).alertsAllDeleted);
+    } else {
+      ctx.editMessageText(
+        this.createAlertsText(remainingAlerts, rest.language),
+        this.createAlertsKeyboard(remainingAlerts),
+      );
+    }
+  };
+
+  /**
+   * Creates the text listing the given price alerts.
+   *
+   * @param {Alert[]} alerts The alerts to list.
+   * @param {Language} language The language of the text.
+   *
+   * @returns {string} The numbered list of alerts.
+   */
+  private readonly createAlertsText = (
+    alerts: Alert[],
+    language: Language,
+  ): string =>
+    `${this.i18n.get(language).alertsTitle} \n${alerts
+      .map(
+        (alert, index) => `${index + 1}. ${this.formatAlert(alert, language)}`,
+      )
+      .join('\n')}`;
+
+  /**
+   * Creates an inline keyboard markup with a delete button for each price alert.
+   *
+   * @param {Alert[]} alerts The alerts to create buttons for.
+   *
+   * @returns {Markup.Markup<InlineKeyboardMarkup>} A Markup object containing the inline keyboard with delete buttons.
+   */
+  private readonly createAlertsKeyboard = (
+    alerts: Alert[],
+  ): Markup.Markup<InlineKeyboardMarkup> =>
+    Markup.inlineKeyboard(
+      alerts.map(({ id, currency }, index) =>
+        Markup.button.callback(
+          `🗑 ${index + 1}. ${currency}`,
+          `delete_alert_${id}`,
+        ),
+      ),
+      { columns: 2 },
+    );
+
+  /**
+   * Describes a price alert, e.g. `BTCIRT is above IRR 6,000,000,000`.
+   *
+   * @param {Alert} alert The alert to describe.
+   * @param {Language} language The language of the description.
+   *
+   * @returns {string} The description of the alert.
+   */
+  private readonly formatAlert = (
+    { currency, direction, price }: Alert,
+    language: Language,
+  ): string => {
+    const market = this.markets.get(currency);
+    const formattedPrice = market
+      ? this.createCurrencyFormatter(market.to, language).format(price)
+      : price.toString();
+
+    return this.i18n
+      .get(language)
+      .alertDescription(currency, direction, formattedPrice);
+  };
+
+  /**
+   * Lists the symbols of all supported markets, e.g. for usage messages.
+   *
+   * @returns {string} The comma-separated market symbols.
+   */
+  private readonly listMarketSymbols = (): string =>
+    this.markets
+      .list()
+      .map(({ symbol }) => symbol)
+      .join(', ');
+
+  /**
+   * Creates an inline keyboard markup for selecting currencies.
+   * Each button represents a currency that the user can subscribe to or unsubscribe from.
+   * The button text indicates whether the currency is currently subscribed (⭕) or not (❌).
+   *
+   * Currencies are grouped by quote currency, with a row of buttons to switch between
+   * the groups, and each group is split into pages of `CURRENCIES_PER_PAGE` buttons.
+   * Additionally, a "Confirm" button is added at the end of the keyboard.
+   *
+   * @param {number} chatId The ID of the chat for which the keyboard is being created.
+   * @param {string} quote The quote currency group to show. Defaults to the first group.
+   * @param {number} page The zero-based page of the group to show.
+   *
+   * @returns {Promise<Markup.Markup<InlineKeyboardMarkup>>} A Markup object containing the inline keyboard with currency buttons.
+   */
+  private readonly createCurrencyKeyboard = async (
+    chatId: number,
+    quote?: string,
+    page = 0,
+  ): Promise<Markup.Markup<InlineKeyboardMarkup>> => {
+    const { subscribedCurrencies, language } = await this.chats.get(chatId);
+    const t = this.i18n.get(language);
+    const quotes = this.markets.listQuotes();
+    const selectedQuote = quotes.includes(quote) ? quote : quotes[0];
+    const markets = this.markets.listByQuote(selectedQuote);
+    const pages = Math.max(Math.ceil(markets.length / CURRENCIES_PER_PAGE), 1);
+    const selectedPage = Math.min(Math.max(page, 0), pages - 1);
+    const rows: InlineKeyboardButton[][] = [];
+
+    if (quotes.length > 1) {
+      rows.push(
+        quotes.map((quote) =>
+          Markup.button.callback(
+            quote === selectedQuote ? `• ${quote} •` : quote,
+            `currency_page_${quote}_0`,
+          ),
+        ),
+      );
+    }
+
+    const buttons = markets
+      .slice(
+        selectedPage * CURRENCIES_PER_PAGE,
+        (selectedPage + 1) * CURRENCIES_PER_PAGE,
+      )
+      .map(({ symbol }) => {
+        const isActive = subscribedCurrencies.has(symbol);
+
+        return Markup.button.callback(
+          isActive ? `⭕ ${symbol}` : `❌ ${symbol}`,
+          `toggle_currency_${symbol}`,
+        );
+      });
+
+    for (let i = 0; i < buttons.length; i += 2) {
+      rows.push(buttons.slice(i, i + 2));
+    }
+
+    if (pages > 1) {
+      rows.push([
+        Markup.button.callback(
+          '◀️',
+          `currency_page_${selectedQuote}_${(selectedPage - 1 + pages) % pages}`,
+        ),
+        Markup.button.callback(`${selectedPage + 1}/${pages}`, 'noop'),
+        Markup.button.callback(
+          '▶️',
+          `currency_page_${selectedQuote}_${(selectedPage + 1) % pages}`,
+        ),
+      ]);
+    }
+
+    rows.push([Markup.button.callback(t.confirm, 'confirm_currency')]);
+
+    return Markup.inlineKeyboard(rows);
+  };
+
+  /**
+   * Sends a price update to all subscribed users whose update interval is due.
+   *
+   * This method retrieves the latest currency prices and formats them according to the user's locale and currency preferences.
+   * It then sends a message to each subscribed user with the updated prices.
+   *
+   * The method performs the following steps:
+   * 1. Selects the subscribed users whose interval divides the given time, and those whose quiet hours
+   *    just ended and who asked for a morning summary. If there are none, exits.
+   * 2. Retrieves the latest prices for each currency they are subscribed to and stores them in the price history.
+   *    Prices are stored for users in their quiet hours too, so that the morning summary covers the night.
+   * 3. Constructs a message for each of these users outside their quiet hours with their respective currencies,
+   *    in the template each of them chose, and a morning summary for those whose quiet hours just ended.
+   * 4. Hands the constructed messages to the broadcast queue, editing the pinned live message of
+   *    the chats in live ticker mode instead, and unsubscribes the chats that blocked the bot
+   *    once they have been delivered.
+   *
+   * @param {Date} time The wall-clock boundary the update is sent for.
+   *
+   * @returns {Promise<void>} A promise that resolves when the price updates have been queued for delivery.
+   *
+   * @throws {Error} If there is an error fetching the price for a currency, it logs the error and includes an error message in the user's update.
+   */
+  private readonly sendPriceUpdate = async (time: Date): Promise<void> => {
+    const chats = await this.chats.entries();
+
+    if (chats.length === 0) {
+      this.logger.warn('No users subscribed. Waiting for /start command.');
+      return;
+    }
+
+    const minutes = Math.floor(time.getTime() / EVERY_MINUTE);
+    const intervalDueChats = chats.filter(
+      ([, { subscribedCurrencies, interval }]) =>
+        subscribedCurrencies.size > 0 && minutes % interval === 0,
+    );
+    const morningChats = chats.filter(
+      ([, chat]) =>
+        chat.subscribedCurrencies.size > 0 &&
+        chat.morningSummary &&
+        this.hasQuietHoursJustEnded(chat, time),
+    );
+
+    if (intervalDueChats.length === 0 && morningChats.length === 0) {
+      return;
+    }
+
+    const dueChats = intervalDueChats.filter(
+      ([, chat]) => !this.isInQuietHours(chat, time),
+    );
+    const duePrices = new Set([
+      ...[...intervalDueChats, ...morningChats].flatMap(
+        ([, { subscribedCurrencies, priceSide }]) =>
+          Array.from(subscribedCurrencies).map(
+            (currency) => `${currency}:${priceSide}`,
+          ),
+      ),
+      ...dueChats
+        .filter(([, { portfolioDigest }]) => portfolioDigest)
+        .flatMap(([, { portfolio, priceSide }]) =>
+          this.listPortfolioMarkets(portfolio).map(
+            (symbol) => `${symbol}:${priceSide}`,
+          ),
+        ),
+    ]);
+
+    const quotes = new Map<string, Quote>();
+
+    await Promise.all(
+      Array.from(duePrices)
+        .map((key) => key.split(':') as [string, PriceSide])
+        .filter(([currency]) => this.markets.has(currency))
+        .map(async ([currency, side]) => {
+          try {
+            const quote = await this.priceService.getPriceOrLastKnown(
+              currency,
+              side,
+            );
+            quotes.set(`${currency}:${side}`, quote);
+
+            if (!quote.stale) {
+              const { symbol, price, source } = quote;
+
+              await this.priceHistory.add({
+                symbol,
+                price,
+                side,
+                source,
+                time: time.getTime(),
+              });
+            }
+          } catch (error) {
+            this.logger.error(`Error fetching price for ${currency}:`, error);
+          }
+        }),
+    );
+
+    const messageMap = new Map<string, string>();
+    const chartMap = new Map<string, Buffer | undefined>();
+    const deliveries: Delivery[] = [];
+
+    for (const [
+      chatId,
+      {
+        subscribedCurrencies,
+        interval,
+        digestChart,
+        language,
+        calendar,
+        priceSide,
+        portfolio,
+        portfolioDigest,
+        digestTemplate,
+        liveTicker,
+      },
+    ] of dueChats) {
+      const t = this.i18n.get(language);
+      const currencyMessages = [
+        escapeDigestText(
+          t.header(this.getFormattedUTCDate(language, calendar, time)),
+          digestTemplate,
+        ),
+      ];
+
+      for (const currency of subscribedCurrencies) {
+        if (!this.markets.has(currency)) {
+          continue;
+        }
+
+        const key = `${currency}:${priceSide}:${interval}:${language}:${digestTemplate}`;
+
+        if (!messageMap.has(key)) {
+          messageMap.set(
+            key,
+            await this.createPriceMessage(
+              currency,
+              quotes.get(`${currency}:${priceSide}`),
+              time,
+              language,
+              interval,
+              digestTemplate,
+            ),
+          );
+        }
+
+        currencyMessages.push(messageMap.get(key));
+      }
+
+      if (portfolioDigest && portfolio.length > 0) {
+        const portfolioMessage = await this.createPortfolioMessage(
+          portfolio,
+          language,
+          async (symbol) => quotes.get(`${symbol}:${priceSide}`)?.price,
+          async (symbol) =>
+            (
+              await this.priceHistory.findLatest(
+                symbol,
+                time.getTime() - interval * EVERY_MINUTE,
+                priceSide,
+              )
+            )?.price,
+        );
+
+        currencyMessages.push(
+          escapeDigestText(portfolioMessage, digestTemplate),
+        );
+      }
+
+      const message = currencyMessages.join(getDigestSeparator(digestTemplate));
+      const extra = { parse_mode: getDigestParseMode(digestTemplate) };
+      deliveries.push({
+        chatId,
+        send: () =>
+          liveTicker
+            ? this.updateLiveMessage(chatId, message, extra)
+            : this.bot.telegram.sendMessage(chatId, message, extra),
+      });
+
+      // Charts cannot be edited into the live message, so they are not sent in live ticker mode.
+      if (digestChart && !liveTicker) {
+        deliveries.push(
+          ...(await this.createDigestChartDeliveries(
+            chatId,
+            subscribedCurrencies,
+            priceSide,
+            language,
+            calendar,
+            chartMap,
+          )),
+        );
+      }
+    }
+
+    for (const [chatId, chat] of morningChats) {
+      const message = await this.createMorningSummary(chat, quotes, time);
+
+      deliveries.push({
+        chatId,
+        send: () => this.bot.telegram.sendMessage(chatId, message),
+      });
+    }
+
+    // Not awaited: the scheduler skips a boundary while the previous run is in progress,
+    // so a broadcast outlasting the next boundary would make chats due then miss their update.
+    // Concurrent broadcasts share the same rate limit.
+    this.broadcastService
+      .broadcast('Price update', deliveries)
+      .then(({ blocked }) => this.unsubscribeBlockedChats(blocked))
+      .catch((error) =>
+        this.logger.error('Failed to deliver the price update', error),
+      );
+  };
 
   /**
-   * A map that stores chat information.
-   * The key is the chat ID (number).
-   * The value is an object containing a set of subscribed currencies (Set<string>).
+   * Checks whether a time falls within the quiet hours of a chat.
+   *
+   * @param {Chat} chat The chat.
+   * @param {Date} time The time.
+   *
+   * @returns {boolean} `true` if the chat has quiet hours and the time is within them.
    */
-  private readonly chats: Map<number, { subscribedCurrencies: Set<string> }> =
-    new Map();
+  private readonly isInQuietHours = (chat: Chat, time: Date): boolean =>
+    !!chat.quietHours &&
+    isWithinQuietHours(chat.quietHours, time, chat.timeZone);
 
   /**
-   * Initializes the BotService with the provided SchedulerService.
+   * Checks whether the quiet hours of a chat ended since the previous price update check,
+   * i.e. whether the time is the first check after the quiet hours.
    *
-   * @param schedulerService The service responsible for scheduling jobs.
+   * @param {Chat} chat The chat.
+   * @param {Date} time The time of the check.
+   *
+   * @returns {boolean} `true` if the quiet hours of the chat just ended.
    */
-  constructor(private readonly schedulerService: SchedulerService) {}
+  private readonly hasQuietHoursJustEnded = (chat: Chat, time: Date): boolean =>
+    !this.isInQuietHours(chat, time) &&
+    this.isInQuietHours(chat, new Date(time.getTime() - EVERY_5_MINUTES));
 
   /**
-   * Initializes the Telegram bot and sets up command handlers and scheduled jobs.
+   * Creates the morning summary of a chat: the change, high and low of each subscribed
+   * currency over the quiet hours that just ended.
+   *
+   * @param {Chat} chat The chat.
+   * @param {Map<string, Quote>} quotes The current prices, keyed by currency and side (e.g. `BTCIRT:ask`).
+   * @param {Date} time The time the quiet hours ended at.
+   *
+   * @returns {Promise<string>} A promise that resolves to the summary.
    */
-  onModuleInit = () => {
-    this.bot = new Telegraf(process.env.TELEGRAM_BOT_TOKEN);
+  private readonly createMorningSummary = async (
+    chat: Chat,
+    quotes: Map<string, Quote>,
+    time: Date,
+  ): Promise<string> => {
+    const { subscribedCurrencies, language, calendar, quietHours, priceSide } =
+      chat;
+    const t = this.i18n.get(language);
+    const since =
+      time.getTime() - getQuietHoursLength(quietHours) * EVERY_MINUTE;
+    const messages = [
+      t.morningHeader(this.getFormattedUTCDate(language, calendar, time)),
+    ];
 
-    this.bot.use(this.initializeChatIfAbsent);
+    for (const currency of subscribedCurrencies) {
+      if (!this.markets.has(currency)) {
+        continue;
+      }
 
-    this.bot.on('channel_post', this.handleChannelPost);
+      const quote = quotes.get(`${currency}:${priceSide}`);
 
-    this.bot.start(this.handleStartCommand);
-    this.bot.command('subscribe', this.handleSubscribeCommand);
-    this.bot.command('unsubscribe', this.handleUnsubscribeCommand);
+      if (!quote) {
+        messages.push(t.priceError(currency));
+        continue;
+      }
 
-    this.bot.action(/toggle_currency_(.+)/, this.handleToggleCurrencyAction);
-    this.bot.action('confirm_currency', this.handleConfirmCurrencyAction);
+      const { from, to } = this.markets.get(currency);
+      const currencyFormatterFrom = this.createCurrencyFormatter(
+        from,
+        language,
+      );
+      const currencyFormatterTo = this.createCurrencyFormatter(to, language);
+      const snapshots = await this.priceHistory.list(
+        currency,
+        since,
+        priceSide,
+      );
+      const lines = [
+        this.formatPriceTitle(currency, priceSide, language),
+        `${currencyFormatterFrom.format(1)} = ${currencyFormatterTo.format(quote.price)}`,
+      ];
 
-    this.bot.catch((err) => this.logger.error('Something went wrong! ', err));
+      if (snapshots.length > 1) {
+        const prices = snapshots.map(({ price }) => price);
 
-    this.bot.launch();
+        lines.push(
+          t.overnightChange(
+            this.formatPriceChange(prices[0], quote.price, to, language),
+          ),
+          t.overnightHighLow(
+            currencyFormatterTo.format(Math.max(...prices)),
+            currencyFormatterTo.format(Math.min(...prices)),
+          ),
+        );
+      }
 
-    this.schedulerService.scheduleJob(
-      'sendPriceUpdate',
-      EVERY_30_MINUTES,
-      () => {
-        this.sendPriceUpdate();
-      },
-    );
+      lines.push(t.source(quote.source));
+      messages.push(lines.join(' \n'));
+    }
+
+    return messages.join('\n-------------------------------- \n');
   };
 
   /**
-   * Middleware to initialize chat data if it is absent.
+   * Unsubscribes the chats that blocked or removed the bot, by clearing their
+   * subscriptions and alerts, so that no more messages are sent to them.
    *
-   * This middleware checks if the chat ID exists in the `chats` map. If it does not,
-   * it initializes the chat data with an empty set of subscribed currencies.
+   * @param {number[]} chatIds The IDs of the chats.
    *
-   * @param {Context} ctx The context object containing the chat information.
-   * @param {() => Promise<void>} next The next middleware function in the stack.
+   * @returns {Promise<void>} A promise that resolves when the chats have been unsubscribed.
    */
-  private readonly initializeChatIfAbsent = (
-    ctx: Context,
-    next: () => Promise<void>,
-  ) => {
-    const chatId = ctx.chat.id;
-    const hasPrivate = ctx.chat.type === 'private';
-    const username =
-      ctx.chat.type === 'channel' || ctx.chat.type == 'supergroup'
-        ? ctx.chat.username
-        : undefined;
+  private readonly unsubscribeBlockedChats = async (
+    chatIds: number[],
+  ): Promise<void> => {
+    for (const chatId of chatIds) {
+      const chat = await this.chats.get(chatId);
 
-    if (hasPrivate || USERNAMES.includes(username)) {
-      if (!this.chats.has(chatId)) {
-        this.chats.set(chatId, { subscribedCurrencies: new Set() });
+      if (!chat) {
+        continue;
       }
 
-      next();
+      await this.chats.set(chatId, {
+        ...chat,
+        subscribedCurrencies: new Set(),
+        alerts: [],
+      });
+
+      this.logger.log(`Chat ${chatId} unsubscribed after blocking the bot`);
     }
   };
 
   /**
-   * Handles incoming channel posts and sends a welcome message along with a currency selection keyboard.
+   * Shows a price update in the live message of a chat in live ticker mode.
    *
-   * @param {Context} ctx The context object containing information about the incoming channel post.
+   * The pinned live message is edited in place. When there is none yet, or it was deleted
+   * or can no longer be edited, a new message is sent and pinned, and becomes the live message.
    *
-   * The function performs the following steps:
-   * 1. Extracts the chat ID, chat username, and text from the incoming channel post.
-   * 2. Checks if text equals /start.
-   * 3. If the conditions are met, sends a welcome message and a currency selection keyboard to the user.
+   * @param {number} chatId The ID of the chat.
+   * @param {string} message The text of the price update.
+   * @param extra The options of the message, such as its parse mode.
    *
-   * The welcome message provides information about the Price Pulse bot and instructions on how to get started.
-   * The currency selection keyboard allows users to enable or disable their preferred currencies.
+   * @returns {Promise<void>} A promise that resolves when the live message shows the update.
    */
-  private readonly handleChannelPost = (ctx: Context) => {
-    const chatId = ctx.channelPost.chat.id;
-    const text = 'text' in ctx.channelPost ? ctx.channelPost.text : '';
+  private readonly updateLiveMessage = async (
+    chatId: number,
+    message: string,
+    extra: { parse_mode?: ParseMode },
+  ): Promise<void> => {
+    const { liveMessageId } = await this.chats.get(chatId);
+
+    if (liveMessageId) {
+      try {
+        await this.bot.telegram.editMessageText(
+          chatId,
+          liveMessageId,
+          undefined,
+          message,
+          extra,
+        );
+        return;
+      } catch (error) {
+        if (this.isEditError(error, 'message is not modified')) {
+          return;
+        }
 
-    if (text === '/start') {
-      const welcomeMessage =
-        '🌐 Welcome to Price Pulse! 🌐 \n\n🤖 Price Pulse is your smart assistant for real-time currency price monitoring! 💹 \n\n✨ Every half hour, I will inform you of the latest prices of your selected currencies. Just select the currencies you want and leave the rest to me! 🕒 \n\n✅ How to get started? \n1. In the menu that appears, enable or disable the currencies you want by clicking on the buttons below. \n2. After selecting, click the "Confirm" button. \n\nFrom now on, I will send you the prices of your selected currencies every half hour! 📊';
+        if (
+          !this.isEditError(error, 'message to edit not found') &&
+          !this.isEditError(error, "message can't be edited")
+        ) {
+          throw error;
+        }
 
-      ctx.reply(welcomeMessage);
-      ctx.reply(
-        'Please select your preferred currencies:',
-        this.createCurrencyKeyboard(chatId),
-      );
+        await this.bot.telegram
+          .unpinChatMessage(chatId, liveMessageId)
+          .catch(() => undefined);
+      }
     }
+
+    const { message_id } = await this.bot.telegram.sendMessage(
+      chatId,
+      message,
+      extra,
+    );
+
+    const chat = await this.chats.get(chatId);
+
+    await this.chats.set(chatId, { ...chat, liveMessageId: message_id });
+
+    // The update was delivered even if it cannot be pinned (e.g. the bot may not pin
+    // messages in the channel), so a failure is only logged and the message is still edited.
+    await this.bot.telegram
+      .pinChatMessage(chatId, message_id, { disable_notification: true })
+      .catch((error) =>
+        this.logger.warn(
+          `Failed to pin the live message in chat ${chatId}: ${error.message}`,
+        ),
+      );
   };
 
   /**
-   * Handles the /start command for the bot.
+   * Checks whether an error is a Telegram error about editing a message.
    *
-   * This method sends a welcome message to the user, introducing them to the Price Pulse bot.
-   * The message includes instructions on how to subscribe to currency price updates and how to
-   * select the currencies they are interested in.
+   * @param {unknown} error The error.
+   * @param {string} description The part of the error description to look for.
    *
-   * @param {Context} ctx The context object provided by the bot framework, which includes information
-   *              about the message and the user.
+   * @returns {boolean} `true` if Telegram rejected the edit with the given description.
    */
-  private readonly handleStartCommand = (ctx: Context) => {
-    const welcomeMessage =
-      '🌐 Welcome to Price Pulse! 🌐 \n\n🤖 Price Pulse is your smart assistant for real-time currency price monitoring! 💹 \n\n✨ Every half hour, I will inform you of the latest prices of your selected currencies. Just select the currencies you want and leave the rest to me! 🕒 \n\n✅ How to get started? \n1. Send the command /subscribe. \n2. In the menu that appears, enable or disable the currencies you want by clicking on the buttons below. \n3. After selecting, click the "Confirm" button. \n\nFrom now on, I will send you the prices of your selected currencies every half hour! 📊';
-
-    ctx.reply(welcomeMessage);
-  };
+  private readonly isEditError = (
+    error: unknown,
+    description: string,
+  ): boolean =>
+    error instanceof TelegramError &&
+    error.code === 400 &&
+    error.description.includes(description);
 
   /**
-   * Handles the /subscribe command from the user.
-   * Sends a message prompting the user to select their preferred currencies.
+   * Creates the delivery of a small 24-hour chart of each given currency to a chat,
+   * as a single album. Currencies without enough price history are skipped.
    *
-   * @param {Context} ctx The context of the message, which includes information about the chat and user.
+   * @param {number} chatId The ID of the chat to send the charts to.
+   * @param {Set<string>} currencies The currencies to send charts of.
+   * @param {PriceSide} side The side of the order book the prices of the chat are taken from.
+   * @param {Language} language The language of the chat.
+   * @param {Calendar} calendar The calendar of the chat.
+   * @param {Map<string, Buffer | undefined>} chartMap The charts rendered so far in this update,
+   *              keyed by currency, side, language and calendar, so that each chart is only rendered once.
+   *
+   * @returns {Promise<Delivery[]>} A promise that resolves to the delivery of the charts, if any.
    */
-  private readonly handleSubscribeCommand = (ctx: Context) => {
-    const chatId = ctx.chat.id;
+  private readonly createDigestChartDeliveries = async (
+    chatId: number,
+    currencies: Set<string>,
+    side: PriceSide,
+    language: Language,
+    calendar: Calendar,
+    chartMap: Map<string, Buffer | undefined>,
+  ): Promise<Delivery[]> => {
+    const charts: Buffer[] = [];
 
-    ctx.reply(
-      'Please select your preferred currencies:',
-      this.createCurrencyKeyboard(chatId),
-    );
+    for (const currency of currencies) {
+      if (!this.markets.has(currency)) {
+        continue;
+      }
+
+      const key = `${currency}:${side}:${language}:${calendar}`;
+
+      if (!chartMap.has(key)) {
+        chartMap.set(
+          key,
+          await this.createPriceChart(
+            currency,
+            side,
+            '24h',
+            language,
+            calendar,
+            { width: 400, height: 200 },
+          ),
+        );
+      }
+
+      if (chartMap.get(key)) {
+        charts.push(chartMap.get(key));
+      }
+    }
+
+    if (charts.length === 1) {
+      return [
+        {
+          chatId,
+          send: () =>
+            this.bot.telegram.sendPhoto(chatId, { source: charts[0] }),
+        },
+      ];
+    }
+
+    if (charts.length > 1) {
+      // Telegram albums hold at most 10 items.
+      return [
+        {
+          chatId,
+          send: () =>
+            this.bot.telegram.sendMediaGroup(
+              chatId,
+              charts
+                .slice(0, 10)
+                .map((chart) => ({ type: 'photo', media: { source: chart } })),
+            ),
+        },
+      ];
+    }
+
+    return [];
   };
 
   /**
-   * Handles the unsubscribe command from the user.
+   * Renders a line chart of a currency's price history on one side of the order book,
+   * with the price axis formatted like the prices in updates and the time axis in UTC.
    *
-   * This method is triggered when a user sends an unsubscribe command.
-   * It retrieves the user's chat ID from the context, updates the user's
-   * subscription status by clearing the set of subscribed currencies,
-   * and sends a confirmation message to the user.
+   * @param {string} currency The currency pair (e.g. 'BTCIRT').
+   * @param {PriceSide} side The side of the order book, which the title names unless it is the best ask.
+   * @param {string} range The time range of the chart, one of the keys of `CHART_RANGES`.
+   * @param {Language} language The language whose digits and date format are used.
+   * @param {Calendar} calendar The calendar of the dates on the time axis.
+   * @param size The size of the image in pixels. Defaults to the chart service's size.
    *
-   * @param {Context} ctx The context object containing information about the chat and message.
+   * @returns {Promise<Buffer | undefined>} The PNG image, or `undefined` if there are fewer than two price snapshots in the range.
    */
-  private readonly handleUnsubscribeCommand = (ctx: Context) => {
-    const chatId = ctx.chat.id;
-    const user = this.chats.get(chatId);
-    this.chats.set(chatId, { ...user, subscribedCurrencies: new Set() });
-    ctx.reply('Your subscriptions has been successfully canceled!');
+  private readonly createPriceChart = async (
+    currency: string,
+    side: PriceSide,
+    range: string,
+    language: Language,
+    calendar: Calendar,
+    size: { width?: number; height?: number } = {},
+  ): Promise<Buffer | undefined> => {
+    const { to } = this.markets.get(currency);
+    const snapshots = await this.priceHistory.list(
+      currency,
+      this.clock.now() - CHART_RANGES.get(range),
+      side,
+    );
+
+    if (snapshots.length < 2) {
+      return undefined;
+    }
+
+    const currencyFormatterTo = this.createCurrencyFormatter(to, language);
+    const timeFormatter = new Intl.DateTimeFormat(
+      this.i18n.getDateLocale(language, calendar),
+      CHART_RANGES.get(range) > EVERY_DAY
+        ? { timeZone: 'UTC', month: '2-digit', day: '2-digit' }
+        : {
+            timeZone: 'UTC',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23',
+          },
+    );
+
+    return this.chartService.renderLineChart({
+      title: `${this.formatPriceTitle(currency, side, language)} - ${range} (UTC)`,
+      points: snapshots.map(({ time, price }) => ({ time, value: price })),
+      formatValue: (value) => currencyFormatterTo.format(value),
+      formatTime: (time) => timeFormatter.format(time),
+      ...size,
+    });
   };
 
   /**
-   * Handles the action of toggling a currency subscription for a chat.
+   * Creates the price update message of a currency.
    *
-   * This method is triggered when a user interacts with the currency selection
-   * interface. It updates the user's subscribed currencies by either adding or
-   * removing the selected currency from their subscription list.
+   * Besides the price itself, the message shows the change since the previous update
+   * of a chat with the given interval and the change over the last 24 hours, along with
+   * the 24-hour high and low. Each of these is only shown when the price history has the data.
+   * The compact template only shows the price and the change since the previous update, on one line.
    *
-   * @param {Context} ctx The context object provided by the Telegraf framework, which
-   *              includes information about the chat and the action performed.
+   * @param {string} currency The currency pair (e.g. 'USDTIRT').
+   * @param {Quote | undefined} quote The latest price of the currency, or `undefined` if it could not be fetched.
+   * @param {Date} time The time the price is reported for.
+   * @param {Language} language The language of the message, which also determines its digits.
+   * @param {number} [interval] The update interval of the chat, in minutes.
+   *              Without it, the change since the previous update is omitted.
+   * @param {DigestTemplate} [template] The template of the message, detailed plain text by default.
    *
-   * @remarks
-   * - The method retrieves the chat ID and the selected currency from the context.
-   * - It then updates the list of subscribed currencies for the chat.
-   * - Finally, it updates the message text to reflect the current state of the
-   *   user's currency subscriptions.
+   * @returns {Promise<string>} The formatted message.
    */
-  private readonly handleToggleCurrencyAction = (ctx: Context) => {
-    const chatId = ctx.chat.id;
-    const currency = (ctx as any).match[1];
-    const { subscribedCurrencies, ...rest } = this.chats.get(chatId);
-    const updatedSubscribedCurrencies = new Set(subscribedCurrencies);
+  private readonly createPriceMessage = async (
+    currency: string,
+    quote: Quote | undefined,
+    time: Date,
+    language: Language,
+    interval?: number,
+    template: DigestTemplate = 'detailed',
+  ): Promise<string> => {
+    const t = this.i18n.get(language);
+    const text = (line: string) => escapeDigestText(line, template);
 
-    if (subscribedCurrencies.has(currency)) {
-      updatedSubscribedCurrencies.delete(currency);
-    } else {
-      updatedSubscribedCurrencies.add(currency);
+    if (!quote) {
+      return text(t.priceError(currency));
     }
 
-    this.chats.set(chatId, {
-      ...rest,
-      subscribedCurrencies: updatedSubscribedCurrencies,
-    });
+    const { from, to } = this.markets.get(currency);
+    const currencyFormatterFrom = this.createCurrencyFormatter(from, language);
+    const currencyFormatterTo = this.createCurrencyFormatter(to, language);
+    const { price, side, source } = quote;
+    const dayAgo = time.getTime() - EVERY_DAY;
+    const title = this.formatPriceTitle(currency, side, language);
+    const formattedPrice = formatDigestBold(
+      currencyFormatterTo.format(price),
+      template,
+    );
+    const previous =
+      interval &&
+      (await this.priceHistory.findLatest(
+        currency,
+        time.getTime() - interval * EVERY_MINUTE,
+        side,
+      ));
+    const change =
+      previous && this.formatPriceChange(previous.price, price, to, language);
+    const staleness =
+      quote.stale &&
+      t.stalePrice(this.formatAge(quote.fetchedAt, time, language));
 
-    ctx.editMessageText(
-      'Please select your preferred currencies:',
-      this.createCurrencyKeyboard(chatId),
+    if (template === 'compact') {
+      return [`${title}: ${formattedPrice}`, change, staleness]
+        .filter(Boolean)
+        .join(' ');
+    }
+
+    const lines = [
+      text(title),
+      `${text(currencyFormatterFrom.format(1))} = ${formattedPrice}`,
+    ];
+
+    if (change) {
+      lines.push(text(t.sinceLastUpdate(change)));
+    }
+
+    const dayAgoSnapshot = await this.priceHistory.findLatest(
+      currency,
+      dayAgo,
+      side,
     );
+
+    if (dayAgoSnapshot && dayAgoSnapshot.time > dayAgo - EVERY_HOUR) {
+      lines.push(
+        text(
+          t.in24h(
+            this.formatPriceChange(dayAgoSnapshot.price, price, to, language),
+          ),
+        ),
+      );
+    }
+
+    const daySnapshots = await this.priceHistory.list(currency, dayAgo, side);
+
+    if (daySnapshots.length > 1) {
+      const dayPrices = daySnapshots.map(({ price }) => price);
+
+      lines.push(
+        text(
+          t.highLow24h(
+            currencyFormatterTo.format(Math.max(...dayPrices)),
+            currencyFormatterTo.format(Math.min(...dayPrices)),
+          ),
+        ),
+      );
+    }
+
+    lines.push(text(t.source(source)));
+
+    if (staleness) {
+      lines.push(text(staleness));
+    }
+
+    return lines.join(' \n');
   };
 
   /**
-   * Handles the confirmation of selected currencies by the user.
+   * Describes how long ago something happened, in minutes, or in hours from an hour on.
    *
-   * This method checks if the user has selected at least one currency. If no currencies are selected,
-   * it sends a warning message to the user. If there are selected currencies, it deletes the current
-   * message and replies with a confirmation message listing the selected currencies. Additionally,
-   * it informs the user that they will receive price updates for these currencies every half hour.
+   * @param {number} since The time it happened at, in milliseconds since the Unix epoch.
+   * @param {Date} time The current time.
+   * @param {Language} language The language of the description.
    *
-   * @param {Context} ctx The context object containing information about the chat and the user's interaction.
+   * @returns {string} The age, e.g. `15 minutes` or `2 hours`.
    */
-  private readonly handleConfirmCurrencyAction = (ctx: Context) => {
-    const chatId = ctx.chat.id;
-    const { subscribedCurrencies } = this.chats.get(chatId);
+  private readonly formatAge = (
+    since: number,
+    time: Date,
+    language: Language,
+  ): string => {
+    const minutes = Math.max(
+      1,
+      Math.round((time.getTime() - since) / EVERY_MINUTE),
+    );
 
-    if (subscribedCurrencies.size === 0) {
-      ctx.answerCbQuery('⚠️ Please select at least one currency.');
-    } else {
-      ctx.deleteMessage();
-      ctx.reply(
-        `✅ Your selected currencies: \n${Array.from(subscribedCurrencies).join(', ')} \n\nFrom now on, I will send you the prices of these currencies every half hour.`,
-      );
-    }
+    return this.i18n
+      .get(language)
+      .interval(minutes < 60 ? minutes : Math.round(minutes / 60) * 60);
   };
 
   /**
-   * Creates an inline keyboard markup for selecting currencies.
-   * Each button represents a currency that the user can subscribe to or unsubscribe from.
-   * The button text indicates whether the currency is currently subscribed (⭕) or not (❌).
-   * Additionally, a "Confirm" button is added at the end of the keyboard.
+   * Returns the title of a price in a message: the currency pair, followed by the side
+   * of the order book the price was taken from unless it is the default best ask.
    *
-   * @param {number} chatId The ID of the chat for which the keyboard is being created.
+   * @param {string} currency The currency pair (e.g. 'BTCIRT').
+   * @param {PriceSide} side The side of the order book.
+   * @param {Language} language The language of the message.
    *
-   * @returns {Markup.Markup<InlineKeyboardMarkup>} A Markup object containing the inline keyboard with currency buttons.
+   * @returns {string} The title, e.g. `BTCIRT (Mid price)`.
    */
-  private readonly createCurrencyKeyboard = (
-    chatId: number,
-  ): Markup.Markup<InlineKeyboardMarkup> => {
-    const buttons = Array.from(this.currencies.keys()).map((currency) => {
-      const { subscribedCurrencies } = this.chats.get(chatId);
-      const isActive = subscribedCurrencies.has(currency);
-
-      return Markup.button.callback(
-        isActive ? `⭕ ${currency}` : `❌ ${currency}`,
-        `toggle_currency_${currency}`,
-      );
-    });
+  private readonly formatPriceTitle = (
+    currency: string,
+    side: PriceSide,
+    language: Language,
+  ): string =>
+    side === 'ask'
+      ? currency
+      : `${currency} (${this.i18n.get(language).priceSides[side]})`;
 
-    buttons.push(Markup.button.callback('Confirm', 'confirm_currency'));
+  /**
+   * Describes the change between two prices, e.g. `▲ IRR 12,000 (+0.2%)`.
+   *
+   * @param {number} previousPrice The earlier price.
+   * @param {number} price The current price.
+   * @param props The locale and currency the prices are expressed in.
+   * @param {Language} language The language whose digits are used.
+   *
+   * @returns {string} The change marker (▲, ▼ or •), the absolute change and the percent change.
+   */
+  private readonly formatPriceChange = (
+    previousPrice: number,
+    price: number,
+    props: { locale: string; currency: string },
+    language: Language,
+  ): string => {
+    const change = price - previousPrice;
+    const marker = change > 0 ? '▲' : change < 0 ? '▼' : '•';
+    const currencyFormatter = this.createCurrencyFormatter(props, language);
+    const percentFormatter = this.createPercentFormatter(
+      props.locale,
+      language,
+    );
 
-    return Markup.inlineKeyboard(buttons, { columns: 2 });
+    return `${marker} ${currencyFormatter.format(Math.abs(change))} (${percentFormatter.format(previousPrice ? change / previousPrice : 0)})`;
   };
 
   /**
-   * Sends a price update to all subscribed users.
-   *
-   * This method retrieves the latest currency prices and formats them according to the user's locale and currency preferences.
-   * It then sends a message to each subscribed user with the updated prices.
+   * Checks the pending price alerts of all chats against the latest prices.
    *
-   * The method performs the following steps:
-   * 1. Checks if there are any subscribed users. If not, logs a warning and exits.
-   * 2. Retrieves and formats the latest prices for each currency.
-   * 3. Constructs a message for each subscribed user with their respective currencies.
-   * 4. Sends the constructed message to each user via the bot.
-   *
-   * @returns {Promise<void>} A promise that resolves when the price updates have been sent.
+   * Prices are fetched once per supported currency that has at least one alert, on each
+   * side of the order book chosen by the chats with alerts on it, so that alerts trigger at
+   * the prices the chats are shown. Every alert whose threshold has been crossed is sent to
+   * its chat and then removed, as alerts only trigger once.
    *
-   * @throws {Error} If there is an error fetching the price for a currency, it logs the error and includes an error message in the user's update.
+   * @returns {Promise<void>} A promise that resolves when the alerts have been checked.
    */
-  private readonly sendPriceUpdate = async (): Promise<void> => {
-    if (this.chats.size === 0) {
-      this.logger.warn('No users subscribed. Waiting for /start command.');
+  private readonly checkPriceAlerts = async (): Promise<void> => {
+    const chats = await this.chats.entries();
+    const alertPrices = new Set(
+      chats.flatMap(([, { alerts, priceSide }]) =>
+        alerts.map(({ currency }) => `${currency}:${priceSide}`),
+      ),
+    );
+
+    if (alertPrices.size === 0) {
       return;
     }
 
-    const header = `Price Pulse!\n${this.getFormattedUTCDate()}`;
+    const prices = new Map<string, number>();
 
-    const messages: [string, string][] = await Promise.all(
-      Array.from(this.currencies).map(async ([currency, { from, to }]) => {
-        try {
-          const currencyFormatterFrom = this.createCurrencyFormatter(from);
-          const currencyFormatterTo = this.createCurrencyFormatter(to);
+    await Promise.all(
+      Array.from(alertPrices)
+        .map((key) => key.split(':') as [string, PriceSide])
+        .filter(([currency]) => this.markets.has(currency))
+        .map(async ([currency, side]) => {
+          try {
+            const { price } = await this.priceService.getPrice(currency, side);
+            prices.set(`${currency}:${side}`, price);
+          } catch (error) {
+            this.logger.error(`Error fetching price for ${currency}:`, error);
+          }
+        }),
+    );
 
-          const price = await this.getCurrencyPrice(currency);
+    const deliveries: Delivery[] = [];
 
-          return [
-            currency,
-            `${currency} \n${currencyFormatterFrom.format(1)} = ${currencyFormatterTo.format(price)}`,
-          ];
-        } catch (error) {
-          this.logger.error(`Error fetching price for ${currency}:`, error);
-          return [
-            currency,
-            `Error retrieving price for ${currency}. Please try again later.`,
-          ];
-        }
-      }),
-    );
+    for (const [chatId, { alerts, priceSide }] of chats) {
+      const triggeredAlerts = alerts.filter(
+        ({ currency, direction, price }) => {
+          const key = `${currency}:${priceSide}`;
 
-    const messageMap = new Map(messages);
+          if (!prices.has(key)) {
+            return false;
+          }
+
+          return direction === 'above'
+            ? prices.get(key) >= price
+            : prices.get(key) <= price;
+        },
+      );
 
-    for (const [chatId, { subscribedCurrencies }] of this.chats) {
-      if (!subscribedCurrencies || subscribedCurrencies.size === 0) {
+      if (triggeredAlerts.length === 0) {
         continue;
       }
 
-      const currencyMessages = Array.from(subscribedCurrencies)
-        .map((currency) => messageMap.get(currency))
-        .filter(Boolean);
+      const triggeredIds = new Set(triggeredAlerts.map(({ id }) => id));
+      const chat = await this.chats.get(chatId);
 
-      currencyMessages.unshift(header);
+      await this.chats.set(chatId, {
+        ...chat,
+        alerts: chat.alerts.filter(({ id }) => !triggeredIds.has(id)),
+      });
 
-      const message = currencyMessages.join(
-        '\n-------------------------------- \n',
-      );
-      await this.bot.telegram.sendMessage(chatId, message);
+      const t = this.i18n.get(chat.language);
+
+      for (const alert of triggeredAlerts) {
+        const currencyFormatterTo = this.createCurrencyFormatter(
+          this.markets.get(alert.currency).to,
+          chat.language,
+        );
+
+        const message = t.alertTriggered(
+          this.formatAlert(alert, chat.language),
+          currencyFormatterTo.format(
+            prices.get(`${alert.currency}:${priceSide}`),
+          ),
+        );
+
+        deliveries.push({
+          chatId,
+          send: () => this.bot.telegram.sendMessage(chatId, message),
+        });
+      }
+    }
+
+    if (deliveries.length === 0) {
+      return;
     }
+
+    // Not awaited, like the price update: a delivery held up by a 429 would make the
+    // scheduler skip the next runs of this job.
+    this.broadcastService
+      .broadcast('Price alerts', deliveries)
+      .then(({ blocked }) => this.unsubscribeBlockedChats(blocked))
+      .catch((error) =>
+        this.logger.error('Failed to deliver the price alerts', error),
+      );
   };
 
   /**
-   * Fetches the price of the specified currency from the Nobitex API.
+   * Samples the prices of the currencies subscribed to by chats with sudden price move
+   * notifications, and notifies the chats whose currencies moved more than their threshold
+   * within their time window, judging by the stored samples.
+   * A chat is notified of a currency pair at most once per `VOLATILITY_COOLDOWN` milliseconds,
+   * and not during its quiet hours.
    *
-   * @param {string} currency The currency symbol to fetch the price for.
+   * @param {Date} time The time of the sample.
+   */
+  private readonly checkVolatility = async (time: Date): Promise<void> => {
+    const chats = (await this.chats.entries()).filter(
+      ([, { volatilityAlert, subscribedCurrencies }]) =>
+        volatilityAlert && subscribedCurrencies.size > 0,
+    );
+
+    if (chats.length === 0) {
+      return;
+    }
+
+    const currencies = new Set(
+      chats.flatMap(([, { subscribedCurrencies }]) =>
+        Array.from(subscribedCurrencies),
+      ),
+    );
+    const prices = new Map<string, number>();
+
+    await Promise.all(
+      Array.from(currencies)
+        .filter((currency) => this.markets.has(currency))
+        .map(async (currency) => {
+          try {
+            const { symbol, price, side, source } =
+              await this.priceService.getPrice(currency);
+            prices.set(currency, price);
+
+            await this.priceSamples.add({
+              symbol,
+              price,
+              side,
+              source,
+              time: time.getTime(),
+            });
+          } catch (error) {
+            this.logger.error(`Error fetching price for ${currency}:`, error);
+          }
+        }),
+    );
+
+    const deliveries: Delivery[] = [];
+
+    for (const [chatId, chat] of chats) {
+      if (this.isInQuietHours(chat, time)) {
+        continue;
+      }
+
+      const { subscribedCurrencies, volatilityAlert, language } = chat;
+      const t = this.i18n.get(language);
+      const notified: string[] = [];
+
+      for (const currency of subscribedCurrencies) {
+        const notifiedAt = chat.volatilityNotifiedAt[currency] ?? 0;
+
+        if (
+          !prices.has(currency) ||
+          time.getTime() - notifiedAt < this.volatilityCooldown
+        ) {
+          continue;
+        }
+
+        const reference = await this.findSuddenMove(
+          currency,
+          prices.get(currency),
+          volatilityAlert.threshold,
+          time.getTime() - volatilityAlert.window * EVERY_MINUTE,
+        );
+
+        if (reference === undefined) {
+          continue;
+        }
+
+        const price = prices.get(currency);
+        const { to } = this.markets.get(currency);
+        const currencyFormatter = this.createCurrencyFormatter(to, language);
+        const message = [
+          t.volatilityMoved(
+            currency,
+            this.createPercentFormatter(to.locale, language).format(
+              price / reference - 1,
+            ),
+            t.interval(volatilityAlert.window),
+          ),
+          t.volatilityPrices(
+            currencyFormatter.format(reference),
+            currencyFormatter.format(price),
+          ),
+        ].join(' \n');
+
+        notified.push(currency);
+        deliveries.push({
+          chatId,
+          send: () => this.bot.telegram.sendMessage(chatId, message),
+        });
+      }
+
+      if (notified.length > 0) {
+        const latest = await this.chats.get(chatId);
+
+        await this.chats.set(chatId, {
+          ...latest,
+          volatilityNotifiedAt: {
+            ...latest.volatilityNotifiedAt,
+            ...Object.fromEntries(
+              notified.map((currency) => [currency, time.getTime()]),
+            ),
+          },
+        });
+      }
+    }
+
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    // Not awaited, for the same reason as in checkPriceAlerts.
+    this.broadcastService
+      .broadcast('Volatility alerts', deliveries)
+      .then(({ blocked }) => this.unsubscribeBlockedChats(blocked))
+      .catch((error) =>
+        this.logger.error('Failed to deliver the volatility alerts', error),
+      );
+  };
+
+  /**
+   * Looks for a sudden move of a currency pair in its price samples: a price since the start
+   * of the time window that differs from the current price by at least the threshold.
    *
-   * @returns {Promise<number>} A promise that resolves to the rounded price of the currency.
+   * @param {string} currency The currency pair (e.g. 'USDTIRT').
+   * @param {number} price The current price.
+   * @param {number} threshold The smallest move, in percent.
+   * @param {number} since The start of the time window, in milliseconds since the Unix epoch.
    *
-   * @throws {Error} Throws an error if the price fetching fails.
+   * @returns {Promise<number | undefined>} The price the largest move started from,
+   *              or `undefined` if the price did not move by the threshold.
    */
-  private readonly getCurrencyPrice = async (
+  private readonly findSuddenMove = async (
     currency: string,
-  ): Promise<number> => {
-    try {
-      const response = await axios.get(
-        `https://api.nobitex.ir/v2/orderbook/${currency}`,
-      );
-      return Math.round(response.data.asks[0][0]);
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    } catch (error) {
-      throw new Error('Failed to fetch Tether price');
+    price: number,
+    threshold: number,
+    since: number,
+  ): Promise<number | undefined> => {
+    const samples = await this.priceSamples.list(currency, since);
+
+    if (samples.length === 0) {
+      return undefined;
     }
+
+    const prices = samples.map(({ price }) => price);
+    const low = Math.min(...prices);
+    const high = Math.max(...prices);
+    const reference = price / low - 1 > 1 - price / high ? low : high;
+
+    return Math.abs(price / reference - 1) * 100 >= threshold
+      ? reference
+      : undefined;
   };
 
   /**
-   * Returns the current date and time in UTC formatted as a string.
-   * The format of the returned string is `YY/MM/DD - HH:mm - UTC`.
+   * Returns a date and time, the current one by default, in UTC formatted as a string.
+   * The format of the returned string is `YYYY/MM/DD - HH:mm - UTC`, with the digits
+   * of the given language and the date in the given calendar (Gregorian or Jalali).
+   *
+   * @param {Language} language The language whose digits are used.
+   * @param {Calendar} calendar The calendar of the date.
+   * @param {Date} [time] The date and time to format.
    *
    * @returns {string} The formatted UTC date and time string.
    */
-  private readonly getFormattedUTCDate = (): string => {
-    const now = new Date();
-
-    const year = now.getUTCFullYear().toString();
-    const month = String(now.getUTCMonth() + 1).padStart(2, '0');
-    const day = String(now.getUTCDate()).padStart(2, '0');
-    const hours = String(now.getUTCHours()).padStart(2, '0');
-    const minutes = String(now.getUTCMinutes()).padStart(2, '0');
+  private readonly getFormattedUTCDate = (
+    language: Language,
+    calendar: Calendar,
+    time = new Date(),
+  ): string => {
+    const parts = new Intl.DateTimeFormat(
+      this.i18n.getDateLocale(language, calendar),
+      {
+        timeZone: 'UTC',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      },
+    ).formatToParts(time);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      parts.find((part) => part.type === type).value;
 
-    return `${year}/${month}/${day} - ${hours}:${minutes} - UTC`;
+    return `${part('year')}/${part('month')}/${part('day')} - ${part('hour')}:${part('minute')} - UTC`;
   };
 
+  /**
+   * Creates a signed percent formatter based on the provided locale.
+   *
+   * @param locale The locale to use for formatting.
+   * @param language The language whose digits are used, if other than the locale's.
+   *
+   * @returns An `Intl.NumberFormat` instance that formats ratios as percentages with up to two decimals.
+   */
+  private readonly createPercentFormatter = (
+    locale: string,
+    language?: Language,
+  ) =>
+    new Intl.NumberFormat(
+      language ? this.i18n.localizeLocale(locale, language) : locale,
+      {
+        style: 'percent',
+        signDisplay: 'exceptZero',
+        maximumFractionDigits: 2,
+      },
+    );
+
   /**
    * Creates a currency formatter based on the provided locale and currency.
    *
    * @param props An object containing the locale and currency.
    * @param props.locale The locale to use for formatting.
    * @param props.currency The currency to use for formatting.
+   * @param language The language whose digits are used, if other than the locale's.
    *
    * @returns An `Intl.NumberFormat` instance configured for the specified locale and currency.
+   * Currencies without a three-letter code (e.g. 'DOGE'), which `Intl` rejects,
+   * are formatted as a plain number followed by the currency code.
    */
-  private readonly createCurrencyFormatter = (props: {
-    locale: string;
-    currency: string;
-  }) => {
-    const { locale, currency } = props;
+  private readonly createCurrencyFormatter = (
+    props: {
+      locale: string;
+      currency: string;
+    },
+    language?: Language,
+  ): Pick<Intl.NumberFormat, 'format'> => {
+    const { currency } = props;
+    const locale = language
+      ? this.i18n.localizeLocale(props.locale, language)
+      : props.locale;
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      const numberFormatter = new Intl.NumberFormat(locale, {
+        maximumFractionDigits: 8,
+      });
+
+      return {
+        format: (value: number | bigint) =>
+          `${numberFormatter.format(value)} ${currency}`,
+      };
+    }
 
     return new Intl.NumberFormat(locale, {
       style: 'currency',
@@ -0,0 +1,61 @@
+import {
+  escapeDigestText,
+  formatDigestBold,
+  getDigestParseMode,
+  getDigestSeparator,
+} from './digest-template';
+
+describe('digest templates', () => {
+  describe('getDigestParseMode', () => {
+    it('sends plain text templates without a parse mode', () => {
+      expect(getDigestParseMode('detailed')).toBeUndefined();
+      expect(getDigestParseMode('compact')).toBeUndefined();
+    });
+
+    it('sends markup templates in their parse mode', () => {
+      expect(getDigestParseMode('markdown')).toBe('Markdown');
+      expect(getDigestParseMode('html')).toBe('HTML');
+    });
+  });
+
+  describe('getDigestSeparator', () => {
+    it('puts compact sections on consecutive lines and separates the others', () => {
+      expect(getDigestSeparator('compact')).toBe('\n');
+      expect(getDigestSeparator('detailed')).toBe(
+        '\n-------------------------------- \n',
+      );
+    });
+  });
+
+  describe('escapeDigestText', () => {
+    const text = 'A_B *C* `D` [E] <F> & G';
+
+    it('leaves plain text as is', () => {
+      expect(escapeDigestText(text, 'detailed')).toBe(text);
+      expect(escapeDigestText(text, 'compact')).toBe(text);
+    });
+
+    it('escapes the Markdown entities', () => {
+      expect(escapeDigestText(text, 'markdown')).toBe(
+        'A\\_B \\*C\\* \\`D\\` \\[E] <F> & G',
+      );
+    });
+
+    it('escapes the HTML special characters', () => {
+      expect(escapeDigestText(text, 'html')).toBe(
+        'A_B *C* `D` [E] &lt;F&gt; &amp; G',
+      );
+    });
+  });
+
+  describe('formatDigestBold', () => {
+    it('shows escaped text in bold in markup templates', () => {
+      expect(formatDigestBold('1 < 2', 'html')).toBe('<b>1 &lt; 2</b>');
+      expect(formatDigestBold('1_000', 'markdown')).toBe('*1\\_000*');
+    });
+
+    it('leaves plain text as is', () => {
+      expect(formatDigestBold('1 < 2', 'detailed')).toBe('1 < 2');
+    });
+  });
+});
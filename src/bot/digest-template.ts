@@ -0,0 +1,92 @@
+import { DigestTemplate } from 'src/storage/chat.interface';
+import { ParseMode } from 'telegraf/typings/core/types/typegram';
+
+/**
+ * The separator between the sections of a price update, per template.
+ * Compact updates put each currency on its own line, without separators.
+ */
+const SEPARATORS: Record<DigestTemplate, string> = {
+  detailed: '\n-------------------------------- \n',
+  compact: '\n',
+  markdown: '\n-------------------------------- \n',
+  html: '\n-------------------------------- \n',
+};
+
+/**
+ * Returns the parse mode price updates are sent with.
+ *
+ * @param {DigestTemplate} template The template of the price update.
+ *
+ * @returns {ParseMode | undefined} The parse mode, or `undefined` for plain text.
+ */
+export const getDigestParseMode = (
+  template: DigestTemplate,
+): ParseMode | undefined => {
+  switch (template) {
+    case 'markdown':
+      return 'Markdown';
+    case 'html':
+      return 'HTML';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Returns the separator between the sections of a price update.
+ *
+ * @param {DigestTemplate} template The template of the price update.
+ *
+ * @returns {string} The separator.
+ */
+export const getDigestSeparator = (template: DigestTemplate): string =>
+  SEPARATORS[template];
+
+/**
+ * Escapes text so that it is shown as is in the parse mode of a template.
+ *
+ * @param {string} text The text.
+ * @param {DigestTemplate} template The template of the price update.
+ *
+ * @returns {string} The escaped text, or the text itself for plain text templates.
+ */
+export const escapeDigestText = (
+  text: string,
+  template: DigestTemplate,
+): string => {
+  switch (template) {
+    case 'markdown':
+      return text.replace(/[_*`[]/g, '\\$&');
+    case 'html':
+      return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+    default:
+      return text;
+  }
+};
+
+/**
+ * Escapes text and shows it in bold in the parse mode of a template.
+ *
+ * @param {string} text The text, e.g. a formatted price.
+ * @param {DigestTemplate} template The template of the price update.
+ *
+ * @returns {string} The bold text, or the text itself for plain text templates.
+ */
+export const formatDigestBold = (
+  text: string,
+  template: DigestTemplate,
+): string => {
+  const escaped = escapeDigestText(text, template);
+
+  switch (template) {
+    case 'markdown':
+      return `*${escaped}*`;
+    case 'html':
+      return `<b>${escaped}</b>`;
+    default:
+      return escaped;
+  }
+};
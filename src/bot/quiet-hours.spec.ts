@@ -0,0 +1,90 @@
+import {
+  formatQuietHours,
+  getQuietHoursLength,
+  isValidTimeZone,
+  isWithinQuietHours,
+  parseQuietHours,
+} from './quiet-hours';
+
+describe('quiet hours', () => {
+  describe('parseQuietHours', () => {
+    it('parses a window as minutes since midnight', () => {
+      expect(parseQuietHours('23:00-08:00')).toEqual({
+        start: 23 * 60,
+        end: 8 * 60,
+      });
+      expect(parseQuietHours(' 7:30 - 9:05 ')).toEqual({
+        start: 7 * 60 + 30,
+        end: 9 * 60 + 5,
+      });
+    });
+
+    it('rejects malformed, out of range and empty windows', () => {
+      expect(parseQuietHours('')).toBeUndefined();
+      expect(parseQuietHours('23:00')).toBeUndefined();
+      expect(parseQuietHours('24:00-08:00')).toBeUndefined();
+      expect(parseQuietHours('23:60-08:00')).toBeUndefined();
+      expect(parseQuietHours('08:00-08:00')).toBeUndefined();
+    });
+  });
+
+  describe('formatQuietHours', () => {
+    it('formats a window with two-digit hours and minutes', () => {
+      expect(formatQuietHours({ start: 23 * 60, end: 7 * 60 + 5 })).toBe(
+        '23:00-07:05',
+      );
+    });
+  });
+
+  describe('getQuietHoursLength', () => {
+    it('measures windows within a day and windows crossing midnight', () => {
+      expect(getQuietHoursLength({ start: 8 * 60, end: 17 * 60 })).toBe(9 * 60);
+      expect(getQuietHoursLength({ start: 23 * 60, end: 8 * 60 })).toBe(9 * 60);
+    });
+  });
+
+  describe('isWithinQuietHours', () => {
+    const at = (time: string) => new Date(`2025-01-01T${time}:00Z`);
+
+    it('includes the start and excludes the end of a window within a day', () => {
+      const window = { start: 8 * 60, end: 17 * 60 };
+
+      expect(isWithinQuietHours(window, at('07:59'), 'UTC')).toBe(false);
+      expect(isWithinQuietHours(window, at('08:00'), 'UTC')).toBe(true);
+      expect(isWithinQuietHours(window, at('16:59'), 'UTC')).toBe(true);
+      expect(isWithinQuietHours(window, at('17:00'), 'UTC')).toBe(false);
+    });
+
+    it('handles windows crossing midnight', () => {
+      const window = { start: 23 * 60, end: 8 * 60 };
+
+      expect(isWithinQuietHours(window, at('22:59'), 'UTC')).toBe(false);
+      expect(isWithinQuietHours(window, at('23:00'), 'UTC')).toBe(true);
+      expect(isWithinQuietHours(window, at('00:00'), 'UTC')).toBe(true);
+      expect(isWithinQuietHours(window, at('07:59'), 'UTC')).toBe(true);
+      expect(isWithinQuietHours(window, at('08:00'), 'UTC')).toBe(false);
+    });
+
+    it('reads the window in the given time zone', () => {
+      const window = { start: 23 * 60, end: 8 * 60 };
+
+      // 23:00 in Tehran (UTC+03:30) is 19:30 UTC.
+      expect(isWithinQuietHours(window, at('19:29'), 'Asia/Tehran')).toBe(
+        false,
+      );
+      expect(isWithinQuietHours(window, at('19:30'), 'Asia/Tehran')).toBe(true);
+      expect(isWithinQuietHours(window, at('04:29'), 'Asia/Tehran')).toBe(true);
+      expect(isWithinQuietHours(window, at('04:30'), 'Asia/Tehran')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('accepts IANA time zones and rejects anything else', () => {
+      expect(isValidTimeZone('Asia/Tehran')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { QuietHours } from 'src/storage/chat.interface';
+
+/**
+ * Parses a time window such as `23:00-08:00`.
+ *
+ * @param {string} text The window, as two `HH:mm` times separated by a dash.
+ *
+ * @returns {QuietHours | undefined} The window, or `undefined` if the text is not a valid
+ *              window or the window is empty.
+ */
+export const parseQuietHours = (text: string): QuietHours | undefined => {
+  const match = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/.exec(text.trim());
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [startHour, startMinute, endHour, endMinute] = match
+    .slice(1)
+    .map(Number);
+
+  if (
+    [startHour, endHour].some((hour) => hour > 23) ||
+    [startMinute, endMinute].some((minute) => minute > 59)
+  ) {
+    return undefined;
+  }
+
+  const start = startHour * 60 + startMinute;
+  const end = endHour * 60 + endMinute;
+
+  return start === end ? undefined : { start, end };
+};
+
+/**
+ * Formats a time window as `HH:mm-HH:mm`.
+ *
+ * @param {QuietHours} quietHours The window.
+ *
+ * @returns {string} The formatted window.
+ */
+export const formatQuietHours = ({ start, end }: QuietHours): string =>
+  [start, end]
+    .map(
+      (minutes) =>
+        `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`,
+    )
+    .join('-');
+
+/**
+ * Returns the length of a time window.
+ *
+ * @param {QuietHours} quietHours The window.
+ *
+ * @returns {number} The length of the window in minutes.
+ */
+export const getQuietHoursLength = ({ start, end }: QuietHours): number =>
+  (end - start + 24 * 60) % (24 * 60);
+
+/**
+ * Checks whether a time falls within a time window.
+ *
+ * @param {QuietHours} quietHours The window.
+ * @param {Date} time The time.
+ * @param {string} timeZone The IANA time zone the window is expressed in.
+ *
+ * @returns {boolean} `true` if the time is within the window (start included, end excluded).
+ */
+export const isWithinQuietHours = (
+  { start, end }: QuietHours,
+  time: Date,
+  timeZone: string,
+): boolean => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(time);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type).value);
+  const minutes = part('hour') * 60 + part('minute');
+
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+/**
+ * Checks whether a string is an IANA time zone supported by the runtime.
+ *
+ * @param {string} timeZone The time zone, e.g. 'Asia/Tehran'.
+ *
+ * @returns {boolean} `true` if the time zone is supported.
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,160 @@
+import { Logger } from '@nestjs/common';
+import { TelegramError } from 'telegraf';
+import { BroadcastService } from './broadcast.service';
+
+describe('BroadcastService', () => {
+  const telegramError = (errorCode: number, retryAfter?: number) =>
+    new TelegramError({
+      error_code: errorCode,
+      description: `Error ${errorCode}`,
+      parameters: retryAfter ? { retry_after: retryAfter } : undefined,
+    });
+
+  let broadcastService: BroadcastService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2025-01-01T10:00:00Z') });
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    broadcastService = new BroadcastService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('delivers the messages of every chat', async () => {
+    const send = jest.fn().mockResolvedValue(undefined);
+    const summary = broadcastService.broadcast('Test', [
+      { chatId: 1, send },
+      { chatId: 2, send },
+      { chatId: 1, send },
+    ]);
+
+    await jest.runAllTimersAsync();
+
+    await expect(summary).resolves.toEqual({
+      delivered: 3,
+      failed: 0,
+      retried: 0,
+      blocked: [],
+    });
+  });
+
+  it('spaces out the messages of a chat across concurrent broadcasts', async () => {
+    const sentAt: number[] = [];
+    const send = jest.fn(async () => {
+      sentAt.push(Date.now());
+    });
+    const groupChatId = -1001234567890;
+    const update = broadcastService.broadcast('Update', [
+      { chatId: groupChatId, send },
+      { chatId: groupChatId, send },
+    ]);
+    const alert = broadcastService.broadcast('Alert', [
+      { chatId: groupChatId, send },
+    ]);
+
+    await jest.runAllTimersAsync();
+    await Promise.all([update, alert]);
+
+    expect(sentAt).toHaveLength(3);
+    expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(3000);
+    expect(sentAt[2] - sentAt[1]).toBeGreaterThanOrEqual(3000);
+  });
+
+  it('waits as long as Telegram asks after a 429', async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(telegramError(429, 5))
+      .mockResolvedValue(undefined);
+    const summary = broadcastService.broadcast('Test', [{ chatId: 1, send }]);
+
+    await jest.advanceTimersByTimeAsync(4900);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    await expect(summary).resolves.toEqual({
+      delivered: 1,
+      failed: 0,
+      retried: 1,
+      blocked: [],
+    });
+  });
+
+  it('reports chats answering with 403 as blocked and skips their other messages', async () => {
+    const blockedSend = jest.fn().mockRejectedValue(telegramError(403));
+    const send = jest.fn().mockResolvedValue(undefined);
+    const summary = broadcastService.broadcast('Test', [
+      { chatId: 1, send: blockedSend },
+      { chatId: 1, send: blockedSend },
+      { chatId: 2, send },
+    ]);
+
+    await jest.runAllTimersAsync();
+
+    expect(blockedSend).toHaveBeenCalledTimes(1);
+    await expect(summary).resolves.toEqual({
+      delivered: 1,
+      failed: 0,
+      retried: 0,
+      blocked: [1],
+    });
+  });
+
+  it('gives up on a message once the retries are exhausted', async () => {
+    const send = jest.fn().mockRejectedValue(telegramError(502));
+    const summary = broadcastService.broadcast('Test', [{ chatId: 1, send }]);
+
+    await jest.runAllTimersAsync();
+
+    expect(send).toHaveBeenCalledTimes(4);
+    await expect(summary).resolves.toEqual({
+      delivered: 0,
+      failed: 1,
+      retried: 3,
+      blocked: [],
+    });
+  });
+
+  it('retries messages that could not reach Telegram', async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(
+        Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+      )
+      .mockResolvedValue(undefined);
+    const summary = broadcastService.broadcast('Test', [{ chatId: 1, send }]);
+
+    await jest.runAllTimersAsync();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    await expect(summary).resolves.toMatchObject({ delivered: 1, retried: 1 });
+  });
+
+  it('does not retry other errors, which may have sent the message already', async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Cannot read properties'))
+      .mockRejectedValueOnce(telegramError(400));
+    const summary = broadcastService.broadcast('Test', [
+      { chatId: 1, send },
+      { chatId: 2, send },
+    ]);
+
+    await jest.runAllTimersAsync();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    await expect(summary).resolves.toEqual({
+      delivered: 0,
+      failed: 2,
+      retried: 0,
+      blocked: [],
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { readNumberEnv } from 'src/common/env';
+import { sleep } from 'src/common/sleep';
+import { TelegramError } from 'telegraf';
+import { Delivery, DeliverySummary } from './delivery.interface';
+
+/**
+ * The default number of messages sent per second across all chats.
+ * Telegram allows about 30 before it starts answering with 429 errors.
+ */
+const DEFAULT_RATE_LIMIT = 25;
+
+/**
+ * The default number of times a message is retried after a transient failure.
+ */
+const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * The minimum time in milliseconds between two messages to the same private chat.
+ */
+const PRIVATE_CHAT_INTERVAL = 1000;
+
+/**
+ * The minimum time in milliseconds between two messages to the same channel or group,
+ * which Telegram limits to 20 messages per minute.
+ */
+const GROUP_CHAT_INTERVAL = 3000;
+
+/**
+ * The delay in milliseconds before the first retry; it doubles on every further retry.
+ */
+const RETRY_BASE_DELAY = 1000;
+
+/**
+ * The codes of the network errors after which a message is retried: failures to reach
+ * Telegram, or connections dropped before it answered.
+ */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+]);
+
+/**
+ * Tells whether a failed message may be retried: when Telegram asked to slow down (429),
+ * failed on its side (5xx), or could not be reached. Any other error, e.g. a bug in the
+ * delivery or a timeout of unknown outcome, is not retried, so that no message is sent twice.
+ *
+ * @param {unknown} error The error the delivery failed with.
+ *
+ * @returns {boolean} `true` if the delivery may be retried.
+ */
+const isTransientError = (error: unknown): boolean => {
+  if (error instanceof TelegramError) {
+    return error.code === 429 || error.code >= 500;
+  }
+
+  return NETWORK_ERROR_CODES.has(
+    (error as { code?: string } | undefined)?.code,
+  );
+};
+
+/**
+ * The `BroadcastService` class delivers messages to many chats without tripping
+ * Telegram's flood limits.
+ *
+ * Messages are sent at most `BROADCAST_RATE_LIMIT` per second overall, and spaced out
+ * per chat, also across concurrent broadcasts. The messages of a chat are sent in order, while chats are served concurrently.
+ * When Telegram answers with 429, every delivery waits for the given `retry_after`.
+ * Server errors and failures to reach Telegram are retried with exponential backoff, up to
+ * `BROADCAST_MAX_RETRIES` times. Chats that answer with 403 (bot blocked or kicked)
+ * are reported in the summary and get no further messages.
+ */
+@Injectable()
+export class BroadcastService {
+  /**
+   * A logger instance for the BroadcastService class.
+   */
+  private readonly logger = new Logger(BroadcastService.name);
+
+  /**
+   * The minimum time in milliseconds between two messages across all chats.
+   */
+  private readonly interval =
+    1000 /
+    readNumberEnv('BROADCAST_RATE_LIMIT', DEFAULT_RATE_LIMIT, {
+      allowZero: false,
+    });
+
+  /**
+   * The number of times a message is retried after a transient failure.
+   */
+  private readonly maxRetries = readNumberEnv(
+    'BROADCAST_MAX_RETRIES',
+    DEFAULT_MAX_RETRIES,
+  );
+
+  /**
+   * The earliest time, in milliseconds since the Unix epoch, the next message may be sent at.
+   * Shared by all broadcasts, so that concurrent broadcasts respect the same limit.
+   */
+  private nextSlot = 0;
+
+  /**
+   * The earliest time, in milliseconds since the Unix epoch, the next message to each chat
+   * may be sent at, keyed by chat ID. Shared by all broadcasts like `nextSlot`, so that
+   * e.g. an alert sent while a price update is delivered does not exceed the chat's limit.
+   */
+  private readonly chatSlots: Map<number, number> = new Map();
+
+  /**
+   * Delivers messages to their chats, and logs a summary once every message has been
+   * delivered or has failed.
+   *
+   * @param {string} name The name of the broadcast, used in the summary log.
+   * @param {Delivery[]} deliveries The messages to deliver, in order.
+   *
+   * @returns {Promise<DeliverySummary>} A promise that resolves to the outcome of the broadcast.
+   */
+  readonly broadcast = async (
+    name: string,
+    deliveries: Delivery[],
+  ): Promise<DeliverySummary> => {
+    const startedAt = Date.now();
+
+    for (const [chatId, slot] of this.chatSlots) {
+      if (slot <= startedAt) {
+        this.chatSlots.delete(chatId);
+      }
+    }
+
+    const summary: DeliverySummary = {
+      delivered: 0,
+      failed: 0,
+      retried: 0,
+      blocked: [],
+    };
+    const chats = new Map<number, Delivery[]>();
+
+    for (const delivery of deliveries) {
+      chats.set(delivery.chatId, [
+        ...(chats.get(delivery.chatId) ?? []),
+        delivery,
+      ]);
+    }
+
+    await Promise.all(
+      Array.from(chats).map(([chatId, chatDeliveries]) =>
+        this.deliverToChat(chatId, chatDeliveries, summary),
+      ),
+    );
+
+    this.logger.log(
+      `${name}: ${summary.delivered} delivered, ${summary.failed} failed, ${summary.blocked.length} blocked, ${summary.retried} retries to ${chats.size} chats in ${Date.now() - startedAt}ms`,
+    );
+
+    return summary;
+  };
+
+  /**
+   * Delivers the messages of one chat in order, spaced out by the chat's rate limit.
+   * Stops once the chat turns out to have blocked the bot.
+   *
+   * @param {number} chatId The ID of the chat.
+   * @param {Delivery[]} deliveries The messages of the chat.
+   * @param {DeliverySummary} summary The summary to record outcomes in.
+   */
+  private readonly deliverToChat = async (
+    chatId: number,
+    deliveries: Delivery[],
+    summary: DeliverySummary,
+  ): Promise<void> => {
+    for (const { send } of deliveries) {
+      for (let attempt = 0; ; attempt++) {
+        await this.acquireChatSlot(chatId);
+        await this.acquireSlot();
+
+        try {
+          await send();
+          summary.delivered++;
+          break;
+        } catch (error) {
+          const code = error instanceof TelegramError ? error.code : undefined;
+
+          if (code === 403) {
+            this.logger.warn(`Chat ${chatId} blocked the bot`);
+            summary.blocked.push(chatId);
+            return;
+          }
+
+          if (code === 429) {
+            this.pause(error.parameters?.retry_after ?? 1);
+          }
+
+          if (!isTransientError(error) || attempt >= this.maxRetries) {
+            this.logger.error(`Error sending message to ${chatId}:`, error);
+            summary.failed++;
+            break;
+          }
+
+          summary.retried++;
+
+          if (code !== 429) {
+            await sleep(RETRY_BASE_DELAY * 2 ** attempt * (1 + Math.random()));
+          }
+        }
+      }
+    }
+  };
+
+  /**
+   * Waits for the next free slot of a chat's rate limit, and claims it.
+   *
+   * @param {number} chatId The ID of the chat.
+   */
+  private readonly acquireChatSlot = async (chatId: number): Promise<void> => {
+    const now = Date.now();
+    const slot = Math.max(now, this.chatSlots.get(chatId) ?? 0);
+
+    this.chatSlots.set(
+      chatId,
+      slot + (chatId < 0 ? GROUP_CHAT_INTERVAL : PRIVATE_CHAT_INTERVAL),
+    );
+
+    await sleep(slot - now);
+  };
+
+  /**
+   * Waits for the next free slot of the global rate limit, and claims it.
+   */
+  private readonly acquireSlot = async (): Promise<void> => {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+
+    this.nextSlot = slot + this.interval;
+
+    await sleep(slot - now);
+  };
+
+  /**
+   * Holds back every delivery for the given time, as asked by a 429 answer.
+   *
+   * @param {number} retryAfter The time to wait in seconds.
+   */
+  private readonly pause = (retryAfter: number): void => {
+    this.logger.warn(`Rate limited by Telegram, pausing for ${retryAfter}s`);
+    this.nextSlot = Math.max(this.nextSlot, Date.now() + retryAfter * 1000);
+  };
+}
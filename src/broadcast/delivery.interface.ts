@@ -0,0 +1,41 @@
+/**
+ * A single message to deliver to a chat.
+ */
+export interface Delivery {
+  /**
+   * The ID of the chat the message is sent to.
+   */
+  chatId: number;
+
+  /**
+   * Sends the message, e.g. by calling `telegram.sendMessage`.
+   * It may be called more than once when the delivery is retried.
+   */
+  send: () => Promise<unknown>;
+}
+
+/**
+ * The outcome of a broadcast.
+ */
+export interface DeliverySummary {
+  /**
+   * The number of messages delivered.
+   */
+  delivered: number;
+
+  /**
+   * The number of messages that could not be delivered, after retries.
+   */
+  failed: number;
+
+  /**
+   * The number of retries made.
+   */
+  retried: number;
+
+  /**
+   * The IDs of the chats that blocked or removed the bot (HTTP 403).
+   * Their remaining messages are skipped.
+   */
+  blocked: number[];
+}
@@ -0,0 +1,76 @@
+import { ChartPoint, ChartService } from './chart.service';
+
+describe('ChartService', () => {
+  const HOUR = 60 * 60 * 1000;
+  const PNG_SIGNATURE = Buffer.from([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ]);
+
+  let chartService: ChartService;
+
+  /**
+   * Renders a chart of the given points, formatting values and times plainly.
+   */
+  const render = (points: ChartPoint[], size = {}) =>
+    chartService.renderLineChart({
+      title: 'USDTIRT - 24h (UTC)',
+      points,
+      formatValue: (value) => value.toFixed(0),
+      formatTime: (time) => new Date(time).toISOString().slice(11, 16),
+      ...size,
+    });
+
+  /**
+   * Reads the width and height from the IHDR chunk of a PNG image.
+   */
+  const readSize = (png: Buffer) => ({
+    width: png.readUInt32BE(16),
+    height: png.readUInt32BE(20),
+  });
+
+  beforeEach(() => {
+    chartService = new ChartService();
+  });
+
+  it('renders a PNG image of the default size', async () => {
+    const png = await render([
+      { time: 0, value: 600000 },
+      { time: HOUR, value: 612000 },
+      { time: 2 * HOUR, value: 605000 },
+    ]);
+
+    expect(png.subarray(0, 8)).toEqual(PNG_SIGNATURE);
+    expect(readSize(png)).toEqual({ width: 800, height: 400 });
+  });
+
+  it('renders a PNG image of the given size', async () => {
+    const png = await render(
+      [
+        { time: 0, value: 600000 },
+        { time: HOUR, value: 612000 },
+      ],
+      { width: 400, height: 200 },
+    );
+
+    expect(png.subarray(0, 8)).toEqual(PNG_SIGNATURE);
+    expect(readSize(png)).toEqual({ width: 400, height: 200 });
+  });
+
+  it('renders a flat series', async () => {
+    const png = await render([
+      { time: 0, value: 600000 },
+      { time: HOUR, value: 600000 },
+    ]);
+
+    expect(png.subarray(0, 8)).toEqual(PNG_SIGNATURE);
+  });
+
+  it('renders a single point, including at zero', async () => {
+    expect((await render([{ time: 0, value: 600000 }])).subarray(0, 8)).toEqual(
+      PNG_SIGNATURE,
+    );
+    expect((await render([{ time: 0, value: 0 }])).subarray(0, 8)).toEqual(
+      PNG_SIGNATURE,
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createCanvas, GlobalFonts, SKRSContext2D } from '@napi-rs/canvas';
+
+/**
+ * The name the font from `CHART_FONT_FILE` is registered under.
+ */
+const CHART_FONT_FAMILY = 'PricePulseChart';
+
+/**
+ * A point of a line chart.
+ */
+export interface ChartPoint {
+  /**
+   * The time of the point, in milliseconds since the Unix epoch.
+   */
+  time: number;
+
+  /**
+   * The value of the point.
+   */
+  value: number;
+}
+
+/**
+ * The options of a line chart.
+ */
+export interface LineChartOptions {
+  /**
+   * The title drawn at the top of the chart.
+   */
+  title: string;
+
+  /**
+   * The points of the line, oldest first.
+   */
+  points: ChartPoint[];
+
+  /**
+   * Formats the labels of the value (vertical) axis.
+   */
+  formatValue: (value: number) => string;
+
+  /**
+   * Formats the labels of the time (horizontal) axis.
+   */
+  formatTime: (time: number) => string;
+
+  /**
+   * The width of the image in pixels.
+   */
+  width?: number;
+
+  /**
+   * The height of the image in pixels.
+   */
+  height?: number;
+}
+
+/**
+ * The `ChartService` class renders price charts as PNG images.
+ *
+ * Charts are drawn on a Skia canvas in the Node process, with no browser or external
+ * chart service involved. Text uses the system's sans-serif font, or the font file
+ * at `CHART_FONT_FILE` if set, which is needed to render e.g. Persian digits on
+ * systems without a suitable font.
+ */
+@Injectable()
+export class ChartService {
+  /**
+   * A logger instance for the ChartService class.
+   */
+  private readonly logger = new Logger(ChartService.name);
+
+  /**
+   * The CSS font family used for all text in the charts.
+   */
+  private readonly fontFamily: string = 'sans-serif';
+
+  constructor() {
+    const fontFile = process.env.CHART_FONT_FILE;
+
+    if (fontFile) {
+      if (GlobalFonts.registerFromPath(fontFile, CHART_FONT_FAMILY)) {
+        this.fontFamily = `${CHART_FONT_FAMILY}, sans-serif`;
+      } else {
+        this.logger.warn(`Failed to load the chart font ${fontFile}`);
+      }
+    }
+  }
+
+  /**
+   * Renders a line chart with horizontal grid lines and labelled axes.
+   *
+   * @param {LineChartOptions} options The data and layout of the chart.
+   *
+   * @returns {Promise<Buffer>} A promise that resolves to the PNG image.
+   */
+  readonly renderLineChart = async (
+    options: LineChartOptions,
+  ): Promise<Buffer> => {
+    const { title, points, formatValue, formatTime } = options;
+    const width = options.width ?? 800;
+    const height = options.height ?? 400;
+    const scale = width / 800;
+    const fontSize = Math.round(14 * scale);
+    const ticks = 5;
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.font = `${fontSize}px ${this.fontFamily}`;
+
+    const values = points.map(({ value }) => value);
+    const times = points.map(({ time }) => time);
+    let minValue = Math.min(...values);
+    let maxValue = Math.max(...values);
+    const margin =
+      (maxValue - minValue) * 0.05 || Math.abs(maxValue) * 0.01 || 1;
+    minValue -= margin;
+    maxValue += margin;
+    const minTime = Math.min(...times);
+    const maxTime = Math.max(...times, minTime + 1);
+
+    const valueLabels = Array.from({ length: ticks }, (_, i) => {
+      const value = minValue + ((maxValue - minValue) * i) / (ticks - 1);
+      return { value, label: formatValue(value) };
+    });
+    const labelWidth = Math.max(
+      ...valueLabels.map(({ label }) => ctx.measureText(label).width),
+    );
+
+    const left = Math.round(labelWidth + 16 * scale);
+    const right = width - Math.round(24 * scale);
+    const top = Math.round(fontSize * 3);
+    const bottom = height - Math.round(fontSize * 2.5);
+
+    const x = (time: number) =>
+      left + ((time - minTime) / (maxTime - minTime)) * (right - left);
+    const y = (value: number) =>
+      bottom - ((value - minValue) / (maxValue - minValue)) * (bottom - top);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = '#222222';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${Math.round(fontSize * 1.2)}px ${this.fontFamily}`;
+    ctx.fillText(title, left, top / 2);
+    ctx.font = `${fontSize}px ${this.fontFamily}`;
+
+    ctx.strokeStyle = '#e5e5e5';
+    ctx.lineWidth = 1;
+    ctx.textAlign = 'right';
+
+    for (const { value, label } of valueLabels) {
+      this.drawLine(ctx, left, y(value), right, y(value));
+      ctx.fillStyle = '#666666';
+      ctx.fillText(label, left - 8 * scale, y(value));
+    }
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+
+    for (let i = 0; i < ticks; i++) {
+      const time = minTime + ((maxTime - minTime) * i) / (ticks - 1);
+      ctx.textAlign = i === 0 ? 'left' : i === ticks - 1 ? 'right' : 'center';
+      ctx.fillText(formatTime(time), x(time), bottom + 8 * scale);
+    }
+
+    ctx.strokeStyle = '#999999';
+    this.drawLine(ctx, left, bottom, right, bottom);
+
+    ctx.beginPath();
+    points.forEach(({ time, value }, i) =>
+      i === 0 ? ctx.moveTo(x(time), y(value)) : ctx.lineTo(x(time), y(value)),
+    );
+    ctx.lineTo(x(times[times.length - 1]), bottom);
+    ctx.lineTo(x(times[0]), bottom);
+    ctx.closePath();
+    ctx.fillStyle = 'rgba(37, 99, 235, 0.12)';
+    ctx.fill();
+
+    const isUp = values[values.length - 1] >= values[0];
+    ctx.beginPath();
+    points.forEach(({ time, value }, i) =>
+      i === 0 ? ctx.moveTo(x(time), y(value)) : ctx.lineTo(x(time), y(value)),
+    );
+    ctx.strokeStyle = isUp ? '#16a34a' : '#dc2626';
+    ctx.lineWidth = Math.max(2 * scale, 1);
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+
+    return canvas.encode('png');
+  };
+
+  /**
+   * Draws a straight line.
+   *
+   * @param ctx The canvas context to draw on.
+   * @param x1 The horizontal coordinate of the start.
+   * @param y1 The vertical coordinate of the start.
+   * @param x2 The horizontal coordinate of the end.
+   * @param y2 The vertical coordinate of the end.
+   */
+  private readonly drawLine = (
+    ctx: SKRSContext2D,
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+  ) => {
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+  };
+}
@@ -0,0 +1,45 @@
+import { readNumberEnv } from './env';
+
+describe('readNumberEnv', () => {
+  const NAME = 'READ_NUMBER_ENV_TEST';
+
+  afterEach(() => {
+    delete process.env[NAME];
+  });
+
+  it('falls back to the default when the variable is unset', () => {
+    expect(readNumberEnv(NAME, 3)).toBe(3);
+  });
+
+  it('falls back to the default when the variable is empty or blank', () => {
+    process.env[NAME] = '';
+    expect(readNumberEnv(NAME, 3)).toBe(3);
+
+    process.env[NAME] = '  ';
+    expect(readNumberEnv(NAME, 3)).toBe(3);
+  });
+
+  it('falls back to the default when the variable is not a number', () => {
+    process.env[NAME] = 'three';
+
+    expect(readNumberEnv(NAME, 3)).toBe(3);
+  });
+
+  it('keeps an explicit zero', () => {
+    process.env[NAME] = '0';
+
+    expect(readNumberEnv(NAME, 3)).toBe(0);
+  });
+
+  it('falls back to the default when the variable is negative', () => {
+    process.env[NAME] = '-1';
+
+    expect(readNumberEnv(NAME, 3)).toBe(3);
+  });
+
+  it('falls back to the default on zero when zero is not allowed', () => {
+    process.env[NAME] = '0';
+
+    expect(readNumberEnv(NAME, 3, { allowZero: false })).toBe(3);
+  });
+});
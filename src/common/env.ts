@@ -0,0 +1,34 @@
+/**
+ * Reads a number from an environment variable.
+ *
+ * Unlike `Number(process.env[name] ?? defaultValue)`, a variable that is set but empty
+ * (e.g. `PRICE_RETRIES=` copied from `.env.example`) falls back to the default instead of
+ * turning into 0, while an explicit 0 is kept unless `allowZero` is `false`.
+ * Negative numbers fall back to the default too, as every setting read this way is a
+ * count, a rate or a duration.
+ *
+ * @param {string} name The name of the environment variable.
+ * @param {number} defaultValue The value used when the variable is unset, empty, not a number or out of range.
+ * @param options.allowZero Whether 0 is a valid value; `true` by default.
+ *
+ * @returns {number} The number.
+ */
+export const readNumberEnv = (
+  name: string,
+  defaultValue: number,
+  { allowZero = true }: { allowZero?: boolean } = {},
+): number => {
+  const value = process.env[name]?.trim();
+  const number = Number(value);
+
+  if (
+    !value ||
+    Number.isNaN(number) ||
+    number < 0 ||
+    (number === 0 && !allowZero)
+  ) {
+    return defaultValue;
+  }
+
+  return number;
+};
@@ -0,0 +1,9 @@
+/**
+ * Resolves after the given time.
+ *
+ * @param ms The time to wait in milliseconds; negative times resolve right away.
+ *
+ * @returns A promise that resolves once the time has passed.
+ */
+export const sleep = (ms: number): Promise<void> =>
+  new Promise<void>((resolve) => setTimeout(resolve, Math.max(ms, 0)));
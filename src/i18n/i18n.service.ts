@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { Calendar, DEFAULT_LANGUAGE, Language, LANGUAGES } from './languages';
+import { en, Messages } from './messages/en';
+import { fa } from './messages/fa';
+
+/**
+ * The message catalogues, keyed by language.
+ */
+const CATALOGUES: Record<Language, Messages> = { en, fa };
+
+/**
+ * The first digit (zero) of the numbering systems accepted in numbers typed by users,
+ * besides ASCII digits: Persian (`۰`) and Arabic-Indic (`٠`) digits.
+ */
+const ZERO_DIGITS = ['\u06F0', '\u0660'];
+
+/**
+ * The `I18nService` class provides the translated messages of the bot interface
+ * and the locale rules (digits, calendar) of each supported language.
+ */
+@Injectable()
+export class I18nService {
+  /**
+   * Returns the message catalogue of a language.
+   *
+   * @param {Language} language The language.
+   *
+   * @returns {Messages} The messages, falling back to the default language for unknown languages.
+   */
+  readonly get = (language: Language): Messages =>
+    CATALOGUES[language] ?? CATALOGUES[DEFAULT_LANGUAGE];
+
+  /**
+   * Picks the supported language matching a Telegram `language_code` (an IETF language tag).
+   *
+   * @param {string} [languageCode] The language code of the user, e.g. 'fa' or 'en-US'.
+   *
+   * @returns {Language} The matching language, or the default language if it is not supported.
+   */
+  readonly detectLanguage = (languageCode?: string): Language => {
+    const language = languageCode?.split('-')[0].toLowerCase() as Language;
+
+    return LANGUAGES.has(language) ? language : DEFAULT_LANGUAGE;
+  };
+
+  /**
+   * Adapts a formatting locale to use the digits of a language,
+   * e.g. `fa-IR` becomes `fa-IR-u-nu-latn` for English.
+   *
+   * @param {string} locale The locale to adapt, e.g. the locale of a market currency.
+   * @param {Language} language The language whose digits should be used.
+   *
+   * @returns {string} The locale with the numbering system of the language.
+   */
+  readonly localizeLocale = (locale: string, language: Language): string =>
+    `${locale}-u-nu-${LANGUAGES.get(language).numberingSystem}`;
+
+  /**
+   * Parses a number typed by a user, in Latin, Persian or Arabic-Indic digits,
+   * with optional thousands separators (`,` or `٬`) and decimal separator (`.` or `٫`),
+   * e.g. `۱۵۰٬۰۰۰` or `0.05`.
+   *
+   * @param {string} text The number.
+   *
+   * @returns {number} The number, or `NaN` if the text is not a number.
+   */
+  readonly parseNumber = (text: string): number => {
+    const normalized = Array.from(text.trim())
+      .map((char) => {
+        for (const zero of ZERO_DIGITS) {
+          const digit = char.charCodeAt(0) - zero.charCodeAt(0);
+
+          if (digit >= 0 && digit <= 9) {
+            return String(digit);
+          }
+        }
+
+        return char;
+      })
+      .join('')
+      .replace(/[,\u066C]/g, '')
+      .replace(/\u066B/g, '.');
+
+    return /^\d+(\.\d+)?$|^\.\d+$/.test(normalized) ? Number(normalized) : NaN;
+  };
+
+  /**
+   * Returns the locale used to format dates for a language and calendar,
+   * e.g. `fa-IR-u-ca-persian`.
+   *
+   * @param {Language} language The language.
+   * @param {Calendar} calendar The calendar.
+   *
+   * @returns {string} The date locale.
+   */
+  readonly getDateLocale = (language: Language, calendar: Calendar): string =>
+    `${LANGUAGES.get(language).locale}-u-ca-${calendar === 'gregorian' ? 'gregory' : calendar}`;
+}
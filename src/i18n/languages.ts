@@ -0,0 +1,51 @@
+/**
+ * The languages the bot interface is available in.
+ */
+export type Language = 'en' | 'fa';
+
+/**
+ * The calendars dates can be shown in: Gregorian or Persian (Jalali).
+ */
+export type Calendar = 'gregorian' | 'persian';
+
+/**
+ * The supported languages with their display name, locale and digits.
+ *
+ * - `label`: The name of the language in itself, shown in the language switcher.
+ * - `locale`: The locale used to format dates.
+ * - `numberingSystem`: The Unicode numbering system used for all digits, e.g. `arabext` for Persian digits.
+ * - `calendar`: The default calendar of new chats using the language.
+ */
+export const LANGUAGES: Map<
+  Language,
+  {
+    label: string;
+    locale: string;
+    numberingSystem: string;
+    calendar: Calendar;
+  }
+> = new Map([
+  [
+    'en',
+    {
+      label: 'English',
+      locale: 'en-US',
+      numberingSystem: 'latn',
+      calendar: 'gregorian',
+    },
+  ],
+  [
+    'fa',
+    {
+      label: 'فارسی',
+      locale: 'fa-IR',
+      numberingSystem: 'arabext',
+      calendar: 'persian',
+    },
+  ],
+]);
+
+/**
+ * The language used when a user's language is not supported.
+ */
+export const DEFAULT_LANGUAGE: Language = 'en';
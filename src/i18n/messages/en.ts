@@ -0,0 +1,203 @@
+/**
+ * The English message catalogue. It defines the keys every other catalogue must provide.
+ */
+export const en = {
+  welcome: (isChannel: boolean, interval: string) =>
+    `🌐 Welcome to Price Pulse! 🌐 \n\n🤖 Price Pulse is your smart assistant for real-time currency price monitoring! 💹 \n\n✨ Every ${interval}, I will inform you of the latest prices of your selected currencies. Just select the currencies you want and leave the rest to me! 🕒 \n\n✅ How to get started? \n${[
+      ...(isChannel ? [] : ['Send the command /subscribe.']),
+      'In the menu that appears, enable or disable the currencies you want by clicking on the buttons below.',
+      'After selecting, click the "Confirm" button.',
+    ]
+      .map((step, index) => `${index + 1}. ${step}`)
+      .join(
+        ' \n',
+      )} \n\nFrom now on, I will send you the prices of your selected currencies every ${interval}! 📊 \nUse /interval to change how often. \n\n🌍 Send /language to change the language.`,
+  selectCurrencies: 'Please select your preferred currencies:',
+  confirm: 'Confirm',
+  selectAtLeastOneCurrency: '⚠️ Please select at least one currency.',
+  currencyUnavailable: '⚠️ This currency is not available.',
+  currenciesConfirmed: (currencies: string, interval: string) =>
+    `✅ Your selected currencies: \n${currencies} \n\nFrom now on, I will send you the prices of these currencies every ${interval}. \nUse /interval to change how often.`,
+  unsubscribed: 'Your subscriptions has been successfully canceled!',
+
+  interval: (minutes: number) => {
+    if (minutes < 60) {
+      return `${minutes} minutes`;
+    }
+
+    if (minutes < 24 * 60) {
+      return minutes === 60 ? '1 hour' : `${minutes / 60} hours`;
+    }
+
+    return minutes === 24 * 60 ? '1 day' : `${minutes / (24 * 60)} days`;
+  },
+  intervalPrompt: 'How often should I send you price updates?',
+  intervalUnavailable: '⚠️ This interval is not available.',
+  intervalSet: (interval: string) =>
+    `✅ From now on, I will send you price updates every ${interval}.`,
+
+  languagePrompt: '🌍 Choose your language and calendar:',
+  languageSet: '✅ The language has been changed to English.',
+  calendarGregorian: 'Gregorian calendar',
+  calendarPersian: 'Jalali calendar',
+  calendarSet: (calendar: string) =>
+    `✅ Dates are now shown in the ${calendar}.`,
+
+  quietUsage: (timeZone: string) =>
+    `⚠️ Usage: /quiet <from>-<to> or /quiet off \nExample: /quiet 23:00-08:00 \n\nTimes are in your time zone (${timeZone}). Change it with /timezone.`,
+  quietCurrent: (quietHours: string, timeZone: string) =>
+    `🌙 Your quiet hours: ${quietHours} (${timeZone})`,
+  quietSet: (quietHours: string, timeZone: string) =>
+    `🌙 Quiet hours set to ${quietHours} (${timeZone}). I will not send price updates during this time. \nSend /morningsummary to get a summary of the overnight prices when they end.`,
+  quietOff:
+    '🔔 Quiet hours turned off. Price updates are sent around the clock.',
+  timeZoneUsage: (timeZone: string) =>
+    `🕒 Your time zone: ${timeZone} \nTo change it, send /timezone <time zone> \nExample: /timezone Asia/Tehran`,
+  timeZoneInvalid: (timeZone: string) =>
+    `⚠️ Unknown time zone: ${timeZone} \nExample: /timezone Asia/Tehran`,
+  timeZoneSet: (timeZone: string) =>
+    `✅ Your time zone has been set to ${timeZone}.`,
+  morningSummaryOn:
+    '🌅 When your quiet hours end, I will send you a summary of the overnight prices. Send /morningsummary again to turn it off.',
+  morningSummaryOff: 'Morning summaries have been turned off.',
+  morningSummaryNoQuietHours:
+    'Morning summaries are sent when your quiet hours end. Set them with /quiet.',
+
+  priceSides: { bid: 'Best bid', ask: 'Best ask', mid: 'Mid price' },
+  priceSidePrompt: 'Which price should your price updates report?',
+  priceSideSet: (side: string) =>
+    `✅ From now on, your price updates report: ${side}.`,
+  digestTemplates: {
+    detailed: 'Detailed',
+    compact: 'Compact (one line per currency)',
+    markdown: 'Detailed, bold prices (Markdown)',
+    html: 'Detailed, bold prices (HTML)',
+  },
+  digestTemplatePrompt: 'How should your price updates look?',
+  digestTemplateSet: (template: string) =>
+    `✅ From now on, your price updates look: ${template}.`,
+  liveTickerOn:
+    '📌 From now on, I will pin one price update and edit it in place instead of sending new ones. Charts are not attached in this mode. In channels and groups, I need the right to pin messages. Send /liveticker again to turn it off.',
+  liveTickerOff:
+    'From now on, every price update will be sent as a new message.',
+
+  header: (date: string) => `Price Pulse!\n${date}`,
+  priceError: (currency: string) =>
+    `Error retrieving price for ${currency}. Please try again later.`,
+  sinceLastUpdate: (change: string) => `${change} since last update`,
+  in24h: (change: string) => `${change} in 24h`,
+  highLow24h: (high: string, low: string) =>
+    `24h high: ${high} \n24h low: ${low}`,
+  source: (source: string) => `Source: ${source}`,
+  stalePrice: (age: string) =>
+    `⚠️ Last known price from ${age} ago, as the price could not be updated.`,
+  morningHeader: (date: string) =>
+    `🌅 Good morning! Here is what happened overnight.\n${date}`,
+  overnightChange: (change: string) => `${change} overnight`,
+  overnightHighLow: (high: string, low: string) =>
+    `Overnight high: ${high} \nOvernight low: ${low}`,
+
+  priceUsage: (currencies: string) =>
+    `⚠️ Usage: /price [currency] \nExample: /price BTCIRT \n\nAvailable currencies: ${currencies}`,
+  priceNotSubscribed:
+    'You are not subscribed to any currency. \nSend /price <currency> or subscribe with /subscribe.',
+
+  bookUsage: (currencies: string) =>
+    `⚠️ Usage: /book <currency> [levels] \nExample: /book BTCIRT 5 \n\nAvailable currencies: ${currencies}`,
+  bookError: (currency: string) =>
+    `Error retrieving the order book of ${currency}. Please try again later.`,
+  bookTitle: (currency: string, source: string) =>
+    `📖 ${currency} order book (${source})`,
+  bestBid: (price: string) => `Best bid: ${price}`,
+  bestAsk: (price: string) => `Best ask: ${price}`,
+  spread: (spread: string, percent: string) => `Spread: ${spread} (${percent})`,
+  midPrice: (price: string) => `Mid price: ${price}`,
+  depth: (levels: string) => `Volume of the top ${levels} levels:`,
+  depthBids: (amount: string, value: string) => `Bids: ${amount} (${value})`,
+  depthAsks: (amount: string, value: string) => `Asks: ${amount} (${value})`,
+
+  convertUsage: (assets: string) =>
+    `⚠️ Usage: /convert <amount> <from> <to> \nExample: /convert 150 USDT IRT \n\nAvailable currencies: ${assets}`,
+  convertNoRoute: (from: string, to: string) =>
+    `There is no way to convert ${from} to ${to} with the available markets.`,
+  convertError: (from: string, to: string) =>
+    `Error retrieving the prices to convert ${from} to ${to}. Please try again later.`,
+  convertResult: (from: string, to: string) => `💱 ${from} = ${to}`,
+  convertRoute: (route: string) => `Route: ${route}`,
+  convertBasis: 'Calculated from the latest mid prices.',
+
+  portfolioUsage: (assets: string) =>
+    `⚠️ Usage: \n/portfolio - show your portfolio \n/portfolio add <currency> <amount> \n/portfolio remove <currency> [amount] \n/portfolio digest - include it in your price updates \nExample: /portfolio add BTC 0.12 \n\nAvailable currencies: ${assets}`,
+  portfolioEmpty:
+    'Your portfolio is empty. \nAdd a holding with /portfolio add <currency> <amount>.',
+  portfolioTitle: '💼 Your portfolio:',
+  portfolioHolding: (amount: string, value: string) => `${amount} = ${value}`,
+  portfolioUnpriced: (amount: string) => `${amount} (price unavailable)`,
+  portfolioTotal: (totals: string) => `Total: ${totals}`,
+  portfolioUpdated: (asset: string, amount: string) =>
+    `✅ Your ${asset} holding is now ${amount}.`,
+  portfolioRemoved: (asset: string) =>
+    `🗑 ${asset} has been removed from your portfolio.`,
+  portfolioNotHeld: (asset: string) =>
+    `There is no ${asset} in your portfolio.`,
+  portfolioDigestOn:
+    '💼 The value of your portfolio will be included in your price updates. Send /portfolio digest again to turn it off.',
+  portfolioDigestOff:
+    'The value of your portfolio will no longer be included in your price updates.',
+
+  chartUsage: (ranges: string) =>
+    `⚠️ Usage: /chart <currency> [${ranges}] \nExample: /chart BTCIRT 24h`,
+  chartNotEnoughHistory: (currency: string) =>
+    `Not enough price history for ${currency} yet. Please try again later.`,
+  digestChartOn:
+    '📈 Charts will be attached to your price updates. Send /digestchart again to turn them off.',
+  digestChartOff: 'Charts will no longer be attached to your price updates.',
+
+  alertUsage: (currencies: string) =>
+    `⚠️ Usage: /alert <currency> <above|below> <price> \nExample: /alert BTCIRT above 6000000000 \n\nAvailable currencies: ${currencies}`,
+  alertSet: (alert: string) => `🔔 Alert set! I will notify you once ${alert}.`,
+  alertDescription: (
+    currency: string,
+    direction: 'above' | 'below',
+    price: string,
+  ) => `${currency} is ${direction} ${price}`,
+  alertsEmpty:
+    'You have no price alerts. \nCreate one with /alert <currency> <above|below> <price>.',
+  alertsTitle: '🔔 Your price alerts:',
+  alertsAllDeleted: 'All your price alerts have been deleted.',
+  alertTriggered: (alert: string, price: string) =>
+    `🚨 Price alert! \n${alert} \nCurrent price: ${price}`,
+
+  volatilityPrompt:
+    '⚡ Get notified as soon as one of your currencies moves sharply. Choose how large a move, and within how long:',
+  volatilityCurrent: (threshold: string, window: string) =>
+    `Currently: moves of ${threshold} within ${window}.`,
+  volatilityDisabled: 'Currently: off.',
+  volatilityTurnOff: 'Turn off',
+  volatilityMoved: (currency: string, change: string, window: string) =>
+    `⚡ Sudden move! \n${currency} moved ${change} within ${window}.`,
+  volatilityPrices: (from: string, to: string) => `${from} → ${to}`,
+
+  chatAdminOnly:
+    '⛔ Only the administrators of this chat can change its subscriptions and settings.',
+  adminOnly: '⛔ This command is only available to the admins of the bot.',
+  adminAddChannelUsage:
+    '⚠️ Usage: /admin_add_channel <@username|chat ID> \nThe bot must be a member of the channel or group.',
+  adminRemoveChannelUsage:
+    '⚠️ Usage: /admin_remove_channel <@username|chat ID>',
+  adminChatNotFound: (chat: string) =>
+    `⚠️ Could not find ${chat}. Make sure the bot is a member of it.`,
+  adminChatAdded: (title: string) =>
+    `✅ ${title} has been registered. Its admins can now send /start to set it up.`,
+  adminChatRemoved: (title: string) =>
+    `✅ ${title} has been removed. The bot will no longer send updates to it.`,
+  adminChatNotRegistered: (chat: string) => `⚠️ ${chat} is not registered.`,
+  adminListEmpty:
+    'No channels or groups are registered. \nAdd one with /admin_add_channel <@username|chat ID>.',
+  adminListTitle: '📋 Registered channels and groups:',
+};
+
+/**
+ * The messages of a catalogue, keyed by message name.
+ */
+export type Messages = typeof en;
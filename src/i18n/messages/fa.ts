@@ -0,0 +1,210 @@
+import { Messages } from './en';
+
+/**
+ * Formats a number with Persian digits.
+ */
+const number = new Intl.NumberFormat('fa-IR');
+
+/**
+ * The Persian message catalogue.
+ */
+export const fa: Messages = {
+  welcome: (isChannel: boolean, interval: string) =>
+    `🌐 به پرایس پالس خوش آمدید! 🌐 \n\n🤖 پرایس پالس دستیار هوشمند شما برای پیگیری لحظه‌ای قیمت ارزهاست! 💹 \n\n✨ هر ${interval}، آخرین قیمت ارزهای انتخابی شما را اطلاع می‌دهم. کافی است ارزهای مورد نظرتان را انتخاب کنید و بقیه را به من بسپارید! 🕒 \n\n✅ چطور شروع کنم؟ \n${[
+      ...(isChannel ? [] : ['دستور /subscribe را ارسال کنید.']),
+      'در منوی نمایش داده شده، با زدن دکمه‌ها ارزهای مورد نظرتان را فعال یا غیرفعال کنید.',
+      'پس از انتخاب، دکمه «تأیید» را بزنید.',
+    ]
+      .map((step, index) => `${number.format(index + 1)}. ${step}`)
+      .join(
+        ' \n',
+      )} \n\nاز این پس، هر ${interval} قیمت ارزهای انتخابی شما را ارسال می‌کنم! 📊 \nبرای تغییر فاصله ارسال، دستور /interval را بفرستید. \n\n🌍 برای تغییر زبان، دستور /language را ارسال کنید.`,
+  selectCurrencies: 'لطفاً ارزهای مورد نظر خود را انتخاب کنید:',
+  confirm: 'تأیید',
+  selectAtLeastOneCurrency: '⚠️ لطفاً حداقل یک ارز انتخاب کنید.',
+  currencyUnavailable: '⚠️ این ارز در دسترس نیست.',
+  currenciesConfirmed: (currencies: string, interval: string) =>
+    `✅ ارزهای انتخابی شما: \n${currencies} \n\nاز این پس، هر ${interval} قیمت این ارزها را برایتان ارسال می‌کنم. \nبرای تغییر فاصله ارسال، دستور /interval را بفرستید.`,
+  unsubscribed: 'اشتراک‌های شما با موفقیت لغو شد!',
+
+  interval: (minutes: number) => {
+    if (minutes < 60) {
+      return `${number.format(minutes)} دقیقه`;
+    }
+
+    if (minutes < 24 * 60) {
+      return `${number.format(minutes / 60)} ساعت`;
+    }
+
+    return `${number.format(minutes / (24 * 60))} روز`;
+  },
+  intervalPrompt: 'هر چند وقت یک بار قیمت‌ها را برایتان ارسال کنم؟',
+  intervalUnavailable: '⚠️ این بازه زمانی در دسترس نیست.',
+  intervalSet: (interval: string) =>
+    `✅ از این پس، هر ${interval} قیمت‌ها را برایتان ارسال می‌کنم.`,
+
+  languagePrompt: '🌍 زبان و تقویم خود را انتخاب کنید:',
+  languageSet: '✅ زبان به فارسی تغییر کرد.',
+  calendarGregorian: 'تقویم میلادی',
+  calendarPersian: 'تقویم شمسی',
+  calendarSet: (calendar: string) =>
+    `✅ از این پس تاریخ‌ها با ${calendar} نمایش داده می‌شوند.`,
+
+  quietUsage: (timeZone: string) =>
+    `⚠️ نحوه استفاده: /quiet <از>-<تا> یا /quiet off \nمثال: /quiet 23:00-08:00 \n\nساعت‌ها به وقت منطقه زمانی شما (${timeZone}) هستند. برای تغییر آن از /timezone استفاده کنید.`,
+  quietCurrent: (quietHours: string, timeZone: string) =>
+    `🌙 ساعات سکوت شما: ${quietHours} (${timeZone})`,
+  quietSet: (quietHours: string, timeZone: string) =>
+    `🌙 ساعات سکوت روی ${quietHours} (${timeZone}) تنظیم شد. در این ساعات قیمتی برای شما ارسال نمی‌کنم. \nبا ارسال /morningsummary پس از پایان آن خلاصه قیمت‌های شبانه را دریافت کنید.`,
+  quietOff: '🔔 ساعات سکوت غیرفعال شد. قیمت‌ها در تمام ساعات ارسال می‌شوند.',
+  timeZoneUsage: (timeZone: string) =>
+    `🕒 منطقه زمانی شما: ${timeZone} \nبرای تغییر آن، دستور /timezone <منطقه زمانی> را بفرستید \nمثال: /timezone Asia/Tehran`,
+  timeZoneInvalid: (timeZone: string) =>
+    `⚠️ منطقه زمانی نامعتبر: ${timeZone} \nمثال: /timezone Asia/Tehran`,
+  timeZoneSet: (timeZone: string) =>
+    `✅ منطقه زمانی شما روی ${timeZone} تنظیم شد.`,
+  morningSummaryOn:
+    '🌅 پس از پایان ساعات سکوت، خلاصه قیمت‌های شبانه را برای شما ارسال می‌کنم. برای غیرفعال کردن، دوباره /morningsummary را بفرستید.',
+  morningSummaryOff: 'خلاصه صبحگاهی غیرفعال شد.',
+  morningSummaryNoQuietHours:
+    'خلاصه صبحگاهی پس از پایان ساعات سکوت ارسال می‌شود. آن را با /quiet تنظیم کنید.',
+
+  priceSides: {
+    bid: 'بهترین قیمت خرید',
+    ask: 'بهترین قیمت فروش',
+    mid: 'قیمت میانه',
+  },
+  priceSidePrompt: 'پیام‌های قیمت کدام قیمت را گزارش کنند؟',
+  priceSideSet: (side: string) =>
+    `✅ از این پس پیام‌های قیمت شما این قیمت را گزارش می‌کنند: ${side}.`,
+  digestTemplates: {
+    detailed: 'کامل',
+    compact: 'فشرده (هر ارز در یک خط)',
+    markdown: 'کامل، قیمت‌های پررنگ (Markdown)',
+    html: 'کامل، قیمت‌های پررنگ (HTML)',
+  },
+  digestTemplatePrompt: 'پیام‌های قیمت چگونه نمایش داده شوند؟',
+  digestTemplateSet: (template: string) =>
+    `✅ از این پس پیام‌های قیمت شما به این شکل نمایش داده می‌شوند: ${template}.`,
+  liveTickerOn:
+    '📌 از این پس یک پیام قیمت را سنجاق می‌کنم و به‌جای ارسال پیام‌های جدید، همان را به‌روزرسانی می‌کنم. در این حالت نمودار پیوست نمی‌شود. در کانال‌ها و گروه‌ها به دسترسی سنجاق کردن پیام نیاز دارم. برای غیرفعال کردن، دوباره /liveticker را بفرستید.',
+  liveTickerOff: 'از این پس هر پیام قیمت به‌صورت پیام جدید ارسال می‌شود.',
+
+  header: (date: string) => `پرایس پالس!\n${date}`,
+  priceError: (currency: string) =>
+    `خطا در دریافت قیمت ${currency}. لطفاً بعداً دوباره تلاش کنید.`,
+  sinceLastUpdate: (change: string) => `${change} نسبت به ارسال قبلی`,
+  in24h: (change: string) => `${change} در ۲۴ ساعت`,
+  highLow24h: (high: string, low: string) =>
+    `بیشترین ۲۴ ساعت: ${high} \nکمترین ۲۴ ساعت: ${low}`,
+  source: (source: string) => `منبع: ${source}`,
+  stalePrice: (age: string) =>
+    `⚠️ به‌روزرسانی قیمت ممکن نشد؛ این آخرین قیمت معتبر از ${age} پیش است.`,
+  morningHeader: (date: string) =>
+    `🌅 صبح بخیر! خلاصه قیمت‌های شب گذشته:\n${date}`,
+  overnightChange: (change: string) => `${change} در طول شب`,
+  overnightHighLow: (high: string, low: string) =>
+    `بیشترین شبانه: ${high} \nکمترین شبانه: ${low}`,
+
+  priceUsage: (currencies: string) =>
+    `⚠️ نحوه استفاده: /price [ارز] \nمثال: /price BTCIRT \n\nارزهای موجود: ${currencies}`,
+  priceNotSubscribed:
+    'شما مشترک هیچ ارزی نیستید. \nدستور /price <ارز> را بفرستید یا با /subscribe مشترک شوید.',
+
+  bookUsage: (currencies: string) =>
+    `⚠️ نحوه استفاده: /book <ارز> [تعداد سطرها] \nمثال: /book BTCIRT 5 \n\nارزهای موجود: ${currencies}`,
+  bookError: (currency: string) =>
+    `خطا در دریافت دفتر سفارش ${currency}. لطفاً بعداً دوباره تلاش کنید.`,
+  bookTitle: (currency: string, source: string) =>
+    `📖 دفتر سفارش ${currency} (${source})`,
+  bestBid: (price: string) => `بهترین قیمت خرید: ${price}`,
+  bestAsk: (price: string) => `بهترین قیمت فروش: ${price}`,
+  spread: (spread: string, percent: string) =>
+    `اختلاف قیمت: ${spread} (${percent})`,
+  midPrice: (price: string) => `قیمت میانه: ${price}`,
+  depth: (levels: string) => `حجم ${levels} سطر اول:`,
+  depthBids: (amount: string, value: string) =>
+    `سفارش‌های خرید: ${amount} (${value})`,
+  depthAsks: (amount: string, value: string) =>
+    `سفارش‌های فروش: ${amount} (${value})`,
+
+  convertUsage: (assets: string) =>
+    `⚠️ نحوه استفاده: /convert <مقدار> <از ارز> <به ارز> \nمثال: /convert 150 USDT IRT \n\nارزهای موجود: ${assets}`,
+  convertNoRoute: (from: string, to: string) =>
+    `با بازارهای موجود امکان تبدیل ${from} به ${to} وجود ندارد.`,
+  convertError: (from: string, to: string) =>
+    `خطا در دریافت قیمت‌ها برای تبدیل ${from} به ${to}. لطفاً بعداً دوباره تلاش کنید.`,
+  convertResult: (from: string, to: string) => `💱 ${from} = ${to}`,
+  convertRoute: (route: string) => `مسیر تبدیل: ${route}`,
+  convertBasis: 'محاسبه‌شده بر اساس آخرین قیمت‌های میانه.',
+
+  portfolioUsage: (assets: string) =>
+    `⚠️ نحوه استفاده: \n/portfolio - نمایش سبد دارایی \n/portfolio add <ارز> <مقدار> \n/portfolio remove <ارز> [مقدار] \n/portfolio digest - نمایش سبد در پیام‌های قیمت \nمثال: /portfolio add BTC 0.12 \n\nارزهای موجود: ${assets}`,
+  portfolioEmpty:
+    'سبد دارایی شما خالی است. \nبا /portfolio add <ارز> <مقدار> دارایی اضافه کنید.',
+  portfolioTitle: '💼 سبد دارایی شما:',
+  portfolioHolding: (amount: string, value: string) => `${amount} = ${value}`,
+  portfolioUnpriced: (amount: string) => `${amount} (قیمت در دسترس نیست)`,
+  portfolioTotal: (totals: string) => `ارزش کل: ${totals}`,
+  portfolioUpdated: (asset: string, amount: string) =>
+    `✅ دارایی ${asset} شما اکنون ${amount} است.`,
+  portfolioRemoved: (asset: string) => `🗑 ${asset} از سبد دارایی شما حذف شد.`,
+  portfolioNotHeld: (asset: string) => `${asset} در سبد دارایی شما نیست.`,
+  portfolioDigestOn:
+    '💼 از این پس ارزش سبد دارایی شما در پیام‌های قیمت نمایش داده می‌شود. برای غیرفعال کردن، دوباره /portfolio digest را بفرستید.',
+  portfolioDigestOff:
+    'ارزش سبد دارایی شما دیگر در پیام‌های قیمت نمایش داده نمی‌شود.',
+
+  chartUsage: (ranges: string) =>
+    `⚠️ نحوه استفاده: /chart <ارز> [${ranges}] \nمثال: /chart BTCIRT 24h`,
+  chartNotEnoughHistory: (currency: string) =>
+    `هنوز سابقه قیمت کافی برای ${currency} وجود ندارد. لطفاً بعداً دوباره تلاش کنید.`,
+  digestChartOn:
+    '📈 از این پس نمودار به پیام‌های قیمت پیوست می‌شود. برای غیرفعال کردن، دوباره /digestchart را بفرستید.',
+  digestChartOff: 'از این پس نمودار به پیام‌های قیمت پیوست نمی‌شود.',
+
+  alertUsage: (currencies: string) =>
+    `⚠️ نحوه استفاده: /alert <ارز> <above|below> <قیمت> \nمثال: /alert BTCIRT above 6000000000 \n\nارزهای موجود: ${currencies}`,
+  alertSet: (alert: string) =>
+    `🔔 هشدار ثبت شد! به محض اینکه ${alert}، به شما اطلاع می‌دهم.`,
+  alertDescription: (
+    currency: string,
+    direction: 'above' | 'below',
+    price: string,
+  ) =>
+    `قیمت ${currency} ${direction === 'above' ? 'بالاتر از' : 'پایین‌تر از'} ${price} باشد`,
+  alertsEmpty:
+    'شما هیچ هشدار قیمتی ندارید. \nبا دستور /alert <ارز> <above|below> <قیمت> یک هشدار بسازید.',
+  alertsTitle: '🔔 هشدارهای قیمت شما:',
+  alertsAllDeleted: 'همه هشدارهای قیمت شما حذف شدند.',
+  alertTriggered: (alert: string, price: string) =>
+    `🚨 هشدار قیمت! \n${alert} \nقیمت فعلی: ${price}`,
+
+  volatilityPrompt:
+    '⚡ به محض نوسان شدید یکی از ارزهای شما خبرتان می‌کنم. اندازه نوسان و بازه زمانی آن را انتخاب کنید:',
+  volatilityCurrent: (threshold: string, window: string) =>
+    `تنظیم فعلی: نوسان ${threshold} در ${window}.`,
+  volatilityDisabled: 'تنظیم فعلی: خاموش.',
+  volatilityTurnOff: 'خاموش کردن',
+  volatilityMoved: (currency: string, change: string, window: string) =>
+    `⚡ نوسان شدید! \n${currency} در ${window} ${change} تغییر کرد.`,
+  volatilityPrices: (from: string, to: string) => `${from} ← ${to}`,
+
+  chatAdminOnly:
+    '⛔ فقط مدیران این گفتگو می‌توانند اشتراک‌ها و تنظیمات آن را تغییر دهند.',
+  adminOnly: '⛔ این دستور فقط برای مدیران ربات در دسترس است.',
+  adminAddChannelUsage:
+    '⚠️ نحوه استفاده: /admin_add_channel <@نام‌کاربری|شناسه گفتگو> \nربات باید عضو کانال یا گروه باشد.',
+  adminRemoveChannelUsage:
+    '⚠️ نحوه استفاده: /admin_remove_channel <@نام‌کاربری|شناسه گفتگو>',
+  adminChatNotFound: (chat: string) =>
+    `⚠️ ${chat} پیدا نشد. مطمئن شوید که ربات عضو آن است.`,
+  adminChatAdded: (title: string) =>
+    `✅ ${title} ثبت شد. اکنون مدیران آن می‌توانند با ارسال /start آن را راه‌اندازی کنند.`,
+  adminChatRemoved: (title: string) =>
+    `✅ ${title} حذف شد. ربات دیگر پیامی به آن ارسال نمی‌کند.`,
+  adminChatNotRegistered: (chat: string) => `⚠️ ${chat} ثبت نشده است.`,
+  adminListEmpty:
+    'هیچ کانال یا گروهی ثبت نشده است. \nبا دستور /admin_add_channel <@نام‌کاربری|شناسه گفتگو> یکی اضافه کنید.',
+  adminListTitle: '📋 کانال‌ها و گروه‌های ثبت‌شده:',
+};
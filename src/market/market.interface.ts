@@ -0,0 +1,60 @@
+/**
+ * The locale and currency used to format one side of a market.
+ */
+export interface MarketCurrency {
+  /**
+   * The locale to use for formatting (e.g. 'fa-IR').
+   */
+  locale: string;
+
+  /**
+   * The currency code to use for formatting (e.g. 'IRR').
+   */
+  currency: string;
+}
+
+/**
+ * A currency pair the bot can report prices for.
+ */
+export interface Market {
+  /**
+   * The market symbol, as used by the price providers (e.g. 'BTCIRT').
+   */
+  symbol: string;
+
+  /**
+   * The asset being priced (e.g. 'BTC').
+   */
+  base: string;
+
+  /**
+   * The asset the price is expressed in (e.g. 'IRT' or 'USDT').
+   */
+  quote: string;
+
+  /**
+   * How to format one unit of the base asset.
+   */
+  from: MarketCurrency;
+
+  /**
+   * How to format the price, in the quote asset.
+   */
+  to: MarketCurrency;
+}
+
+/**
+ * One step of converting an amount of an asset into another asset.
+ */
+export interface ConversionStep {
+  /**
+   * The market trading both assets of the step.
+   */
+  market: Market;
+
+  /**
+   * Whether the step converts the quote asset into the base asset,
+   * dividing by the price instead of multiplying.
+   */
+  inverse: boolean;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PriceModule } from 'src/price/price.module';
+import { MarketService } from './market.service';
+
+@Module({
+  imports: [PriceModule],
+  providers: [MarketService],
+  exports: [MarketService],
+})
+export class MarketModule {}
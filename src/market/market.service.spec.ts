@@ -0,0 +1,171 @@
+import { Logger } from '@nestjs/common';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PriceService } from 'src/price/price.service';
+import { MarketService } from './market.service';
+
+describe('MarketService', () => {
+  let dir: string;
+  let getMarkets: jest.Mock;
+  let marketService: MarketService;
+
+  /**
+   * Writes the market catalogue and loads it.
+   */
+  const load = async (entries: object[]) => {
+    const path = join(dir, 'markets.json');
+
+    await writeFile(path, JSON.stringify(entries));
+    process.env.MARKETS_FILE = path;
+    await marketService.onModuleInit();
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'market-service-'));
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    getMarkets = jest.fn();
+    marketService = new MarketService({
+      getMarkets,
+    } as unknown as PriceService);
+  });
+
+  afterEach(async () => {
+    delete process.env.MARKETS_FILE;
+    delete process.env.MARKET_DISCOVERY;
+    jest.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('catalogue', () => {
+    it('loads the markets of the file, deriving their formatting from the assets', async () => {
+      await load([
+        { symbol: 'USDTIRT', base: 'USDT', quote: 'IRT' },
+        {
+          symbol: 'BTCUSDT',
+          base: 'BTC',
+          quote: 'USDT',
+          to: { locale: 'en-GB', currency: 'USD' },
+        },
+      ]);
+
+      expect(marketService.get('USDTIRT')).toEqual({
+        symbol: 'USDTIRT',
+        base: 'USDT',
+        quote: 'IRT',
+        from: { locale: 'en-US', currency: 'USD' },
+        to: { locale: 'fa-IR', currency: 'IRR' },
+      });
+      expect(marketService.get('BTCUSDT')).toMatchObject({
+        from: { locale: 'en-US', currency: 'BTC' },
+        to: { locale: 'en-GB', currency: 'USD' },
+      });
+      expect(marketService.listQuotes()).toEqual(['IRT', 'USDT']);
+      expect(marketService.listAssets()).toEqual(['USDT', 'IRT', 'BTC']);
+    });
+
+    it('ignores markets quoted in unsupported assets', async () => {
+      await load([
+        { symbol: 'USDTIRT', base: 'USDT', quote: 'IRT' },
+        { symbol: 'BTCEUR', base: 'BTC', quote: 'EUR' },
+      ]);
+
+      expect(marketService.has('USDTIRT')).toBe(true);
+      expect(marketService.has('BTCEUR')).toBe(false);
+    });
+
+    it('rejects entries without a symbol, base or quote', async () => {
+      await expect(load([{ symbol: 'USDTIRT', base: 'USDT' }])).rejects.toThrow(
+        'Invalid market entry',
+      );
+    });
+
+    it('adds the markets listed by the providers with MARKET_DISCOVERY', async () => {
+      process.env.MARKET_DISCOVERY = 'true';
+      getMarkets.mockResolvedValue(['BTCIRT', 'USDTIRT', 'BTCEUR', 'IRT']);
+
+      await load([
+        {
+          symbol: 'USDTIRT',
+          base: 'USDT',
+          quote: 'IRT',
+          from: { locale: 'en-GB', currency: 'USD' },
+        },
+      ]);
+
+      expect(marketService.list().map(({ symbol }) => symbol)).toEqual([
+        'USDTIRT',
+        'BTCIRT',
+      ]);
+      expect(marketService.get('USDTIRT').from.locale).toBe('en-GB');
+    });
+
+    it('keeps the markets of the file when discovery fails', async () => {
+      process.env.MARKET_DISCOVERY = 'true';
+      getMarkets.mockRejectedValue(new Error('No provider could list markets'));
+
+      await load([{ symbol: 'USDTIRT', base: 'USDT', quote: 'IRT' }]);
+
+      expect(marketService.list().map(({ symbol }) => symbol)).toEqual([
+        'USDTIRT',
+      ]);
+    });
+  });
+
+  describe('findConversion', () => {
+    const USDTIRT = { symbol: 'USDTIRT', base: 'USDT', quote: 'IRT' };
+    const BTCIRT = { symbol: 'BTCIRT', base: 'BTC', quote: 'IRT' };
+    const BTCUSDT = { symbol: 'BTCUSDT', base: 'BTC', quote: 'USDT' };
+    const ETHUSDT = { symbol: 'ETHUSDT', base: 'ETH', quote: 'USDT' };
+
+    /**
+     * Describes a route as the markets it trades on, prefixed with `1/` where inverted.
+     */
+    const describeRoute = (from: string, to: string) =>
+      marketService
+        .findConversion(from, to)
+        ?.map(
+          ({ market, inverse }) => `${inverse ? '1/' : ''}${market.symbol}`,
+        );
+
+    it('converts along a market, in either direction', async () => {
+      await load([USDTIRT]);
+
+      expect(describeRoute('USDT', 'IRT')).toEqual(['USDTIRT']);
+      expect(describeRoute('IRT', 'USDT')).toEqual(['1/USDTIRT']);
+    });
+
+    it('bridges assets without a market of their own through other assets', async () => {
+      await load([USDTIRT, BTCIRT, ETHUSDT]);
+
+      expect(describeRoute('BTC', 'USDT')).toEqual(['BTCIRT', '1/USDTIRT']);
+      expect(describeRoute('BTC', 'ETH')).toEqual([
+        'BTCIRT',
+        '1/USDTIRT',
+        '1/ETHUSDT',
+      ]);
+    });
+
+    it('takes the shortest route', async () => {
+      await load([USDTIRT, BTCIRT, BTCUSDT]);
+
+      expect(describeRoute('BTC', 'USDT')).toEqual(['BTCUSDT']);
+    });
+
+    it('finds no route between unconnected or unknown assets', async () => {
+      await load([BTCIRT, ETHUSDT]);
+
+      expect(describeRoute('BTC', 'ETH')).toBeUndefined();
+      expect(describeRoute('BTC', 'DOGE')).toBeUndefined();
+    });
+
+    it('converts an asset to itself without any market', async () => {
+      await load([BTCIRT]);
+
+      expect(describeRoute('BTC', 'BTC')).toEqual([]);
+    });
+  });
+});
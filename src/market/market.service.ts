@@ -0,0 +1,252 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { PriceService } from 'src/price/price.service';
+import { ConversionStep, Market, MarketCurrency } from './market.interface';
+
+/**
+ * The formatting of the quote assets supported by the bot, keyed by asset.
+ * Markets quoted in other assets are not supported.
+ */
+const QUOTES: Map<string, MarketCurrency> = new Map([
+  ['IRT', { locale: 'fa-IR', currency: 'IRR' }],
+  ['USDT', { locale: 'en-US', currency: 'USD' }],
+]);
+
+/**
+ * Currency codes used to format assets whose own code is not a valid ISO 4217 code.
+ */
+const CURRENCY_ALIASES: Map<string, string> = new Map([['USDT', 'USD']]);
+
+/**
+ * The `MarketService` class holds the catalogue of markets the bot supports.
+ *
+ * Markets are loaded from the JSON file at `MARKETS_FILE` (`config/markets.json` by default)
+ * when the module is initialized. Each entry needs a `symbol`, `base` and `quote`, and may
+ * override the `from`/`to` formatting that is otherwise derived from the assets.
+ *
+ * When `MARKET_DISCOVERY` is `true`, the markets listed by the price providers are added too,
+ * for every supported quote asset. Markets from the file take precedence.
+ */
+@Injectable()
+export class MarketService implements OnModuleInit {
+  /**
+   * A logger instance for the MarketService class.
+   */
+  private readonly logger = new Logger(MarketService.name);
+
+  /**
+   * The supported markets, keyed by symbol.
+   */
+  private readonly markets: Map<string, Market> = new Map();
+
+  /**
+   * @param priceService The service used to discover the markets listed by the price providers.
+   */
+  constructor(private readonly priceService: PriceService) {}
+
+  /**
+   * Loads the market catalogue.
+   */
+  onModuleInit = async () => {
+    const path = process.env.MARKETS_FILE ?? 'config/markets.json';
+    const entries: Partial<Market>[] = JSON.parse(await readFile(path, 'utf8'));
+
+    for (const entry of entries) {
+      this.add(this.createMarket(entry));
+    }
+
+    if (process.env.MARKET_DISCOVERY === 'true') {
+      await this.discover();
+    }
+
+    this.logger.log(`Loaded ${this.markets.size} markets`);
+  };
+
+  /**
+   * Checks whether a market is supported.
+   *
+   * @param symbol The market symbol.
+   *
+   * @returns `true` if the market is in the catalogue.
+   */
+  readonly has = (symbol: string): boolean => this.markets.has(symbol);
+
+  /**
+   * Retrieves a market from the catalogue.
+   *
+   * @param symbol The market symbol.
+   *
+   * @returns The market, or `undefined` if it is not supported.
+   */
+  readonly get = (symbol: string): Market | undefined =>
+    this.markets.get(symbol);
+
+  /**
+   * Lists the supported markets, grouped by quote asset in the order of `QUOTES`.
+   *
+   * @returns The markets.
+   */
+  readonly list = (): Market[] =>
+    Array.from(QUOTES.keys()).flatMap((quote) => this.listByQuote(quote));
+
+  /**
+   * Lists the supported markets quoted in the given asset.
+   *
+   * @param quote The quote asset (e.g. 'IRT').
+   *
+   * @returns The markets, in catalogue order.
+   */
+  readonly listByQuote = (quote: string): Market[] =>
+    Array.from(this.markets.values()).filter(
+      (market) => market.quote === quote,
+    );
+
+  /**
+   * Lists the quote assets that have at least one supported market.
+   *
+   * @returns The quote assets, in the order of `QUOTES`.
+   */
+  readonly listQuotes = (): string[] =>
+    Array.from(QUOTES.keys()).filter(
+      (quote) => this.listByQuote(quote).length > 0,
+    );
+
+  /**
+   * Lists the assets traded in the supported markets, as a base or a quote asset.
+   *
+   * @returns The assets, in catalogue order.
+   */
+  readonly listAssets = (): string[] =>
+    Array.from(
+      new Set(this.list().flatMap(({ base, quote }) => [base, quote])),
+    );
+
+  /**
+   * Returns how to format amounts of an asset.
+   *
+   * @param asset The asset (e.g. 'BTC' or 'IRT').
+   *
+   * @returns The formatting of the asset, or `undefined` if no supported market trades it.
+   */
+  readonly getCurrency = (asset: string): MarketCurrency | undefined => {
+    if (QUOTES.has(asset) && this.listByQuote(asset).length > 0) {
+      return QUOTES.get(asset);
+    }
+
+    return this.list().find(({ base }) => base === asset)?.from;
+  };
+
+  /**
+   * Finds the shortest chain of markets converting one asset into another,
+   * bridging through other assets (e.g. BTC → IRT → USDT) when no market trades both.
+   *
+   * @param from The asset to convert from.
+   * @param to The asset to convert to.
+   *
+   * @returns The conversion steps, in order, or `undefined` if the assets are not connected.
+   * Converting an asset into itself takes no steps.
+   */
+  readonly findConversion = (
+    from: string,
+    to: string,
+  ): ConversionStep[] | undefined => {
+    const routes: Map<string, ConversionStep[]> = new Map([[from, []]]);
+    const queue = [from];
+
+    while (queue.length > 0) {
+      const asset = queue.shift();
+
+      if (asset === to) {
+        return routes.get(asset);
+      }
+
+      for (const market of this.list()) {
+        const next =
+          market.base === asset
+            ? { asset: market.quote, inverse: false }
+            : market.quote === asset
+              ? { asset: market.base, inverse: true }
+              : undefined;
+
+        if (next && !routes.has(next.asset)) {
+          routes.set(next.asset, [
+            ...routes.get(asset),
+            { market, inverse: next.inverse },
+          ]);
+          queue.push(next.asset);
+        }
+      }
+    }
+
+    return undefined;
+  };
+
+  /**
+   * Adds the markets listed by the price providers that are not in the catalogue yet.
+   * Failures are logged and leave the catalogue unchanged.
+   */
+  private readonly discover = async () => {
+    try {
+      const symbols = await this.priceService.getMarkets();
+
+      for (const symbol of symbols) {
+        const quote = Array.from(QUOTES.keys()).find(
+          (quote) => symbol.endsWith(quote) && symbol.length > quote.length,
+        );
+
+        if (quote && !this.markets.has(symbol)) {
+          const base = symbol.slice(0, -quote.length);
+          this.add(this.createMarket({ symbol, base, quote }));
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to discover markets:', error);
+    }
+  };
+
+  /**
+   * Adds a market to the catalogue, unless its quote asset is not supported.
+   *
+   * @param market The market to add.
+   */
+  private readonly add = (market: Market) => {
+    if (!QUOTES.has(market.quote)) {
+      this.logger.warn(
+        `Ignoring ${market.symbol}: ${market.quote} markets are not supported`,
+      );
+      return;
+    }
+
+    this.markets.set(market.symbol, market);
+  };
+
+  /**
+   * Creates a market from a catalogue entry, deriving the formatting that is not given.
+   *
+   * @param entry The catalogue entry.
+   *
+   * @returns The market.
+   *
+   * @throws {Error} Throws an error if the entry has no symbol, base or quote.
+   */
+  private readonly createMarket = (entry: Partial<Market>): Market => {
+    const { symbol, base, quote, from, to } = entry;
+
+    if (!symbol || !base || !quote) {
+      throw new Error(
+        `Invalid market entry, symbol, base and quote are required: ${JSON.stringify(entry)}`,
+      );
+    }
+
+    return {
+      symbol,
+      base,
+      quote,
+      from: from ?? {
+        locale: 'en-US',
+        currency: CURRENCY_ALIASES.get(base) ?? base,
+      },
+      to: to ?? QUOTES.get(quote),
+    };
+  };
+}
@@ -0,0 +1,71 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const RESET_TIMEOUT = 60 * 1000;
+
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    breaker = new CircuitBreaker(3, RESET_TIMEOUT);
+  });
+
+  /**
+   * Records failures until the circuit opens at the given time.
+   */
+  const open = (now: number) => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure(now);
+    }
+  };
+
+  it('opens after the threshold of consecutive failures', () => {
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    expect(breaker.isOpen(0)).toBe(false);
+
+    breaker.recordFailure(0);
+    expect(breaker.isOpen(0)).toBe(true);
+    expect(breaker.tryRequest(RESET_TIMEOUT - 1)).toBe(false);
+  });
+
+  it('counts only consecutive failures', () => {
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+
+    expect(breaker.isOpen(0)).toBe(false);
+    expect(breaker.tryRequest(0)).toBe(true);
+  });
+
+  it('lets a single trial request through once the reset timeout has passed', () => {
+    open(0);
+
+    expect(breaker.tryRequest(RESET_TIMEOUT)).toBe(true);
+    expect(breaker.tryRequest(RESET_TIMEOUT)).toBe(false);
+    expect(breaker.tryRequest(2 * RESET_TIMEOUT)).toBe(false);
+    expect(breaker.isOpen(2 * RESET_TIMEOUT)).toBe(true);
+  });
+
+  it('closes when the trial request succeeds', () => {
+    open(0);
+    breaker.tryRequest(RESET_TIMEOUT);
+
+    breaker.recordSuccess();
+
+    expect(breaker.isOpen(RESET_TIMEOUT)).toBe(false);
+    expect(breaker.tryRequest(RESET_TIMEOUT)).toBe(true);
+    expect(breaker.tryRequest(RESET_TIMEOUT)).toBe(true);
+  });
+
+  it('opens again right away when the trial request fails', () => {
+    open(0);
+    breaker.tryRequest(RESET_TIMEOUT);
+
+    breaker.recordFailure(RESET_TIMEOUT);
+
+    expect(breaker.tryRequest(2 * RESET_TIMEOUT - 1)).toBe(false);
+    expect(breaker.tryRequest(2 * RESET_TIMEOUT)).toBe(true);
+  });
+});
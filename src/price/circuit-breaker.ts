@@ -0,0 +1,90 @@
+/**
+ * A circuit breaker that stops requests to a failing endpoint for a while.
+ *
+ * The circuit opens after `threshold` consecutive failures, and requests are refused
+ * for `resetTimeout` milliseconds. After that, a single trial request is let through
+ * (half-open) while the others are still refused: its success closes the circuit, while its
+ * failure opens it again right away.
+ */
+export class CircuitBreaker {
+  /**
+   * The number of consecutive failures.
+   */
+  private failures = 0;
+
+  /**
+   * The time the circuit was last opened at, or `null` while it is closed.
+   */
+  private openedAt: number | null = null;
+
+  /**
+   * Whether the trial request of a half-open circuit has been let through and not settled yet.
+   */
+  private trialInFlight = false;
+
+  /**
+   * @param threshold The number of consecutive failures that opens the circuit.
+   * @param resetTimeout The time in milliseconds requests are refused for once the circuit opens.
+   */
+  constructor(
+    private readonly threshold: number,
+    private readonly resetTimeout: number,
+  ) {}
+
+  /**
+   * Checks whether requests are currently refused.
+   *
+   * @param now The current time in milliseconds since the Unix epoch.
+   *
+   * @returns `true` if the circuit is open.
+   */
+  readonly isOpen = (now = Date.now()): boolean =>
+    this.openedAt !== null &&
+    (this.trialInFlight || now - this.openedAt < this.resetTimeout);
+
+  /**
+   * Checks whether a request may be made, letting the trial request of a half-open circuit
+   * through. The caller must record the outcome of every request let through.
+   *
+   * @param now The current time in milliseconds since the Unix epoch.
+   *
+   * @returns `true` if the request may be made.
+   */
+  readonly tryRequest = (now = Date.now()): boolean => {
+    if (this.openedAt === null) {
+      return true;
+    }
+
+    if (this.isOpen(now)) {
+      return false;
+    }
+
+    this.trialInFlight = true;
+
+    return true;
+  };
+
+  /**
+   * Records a successful request, closing the circuit.
+   */
+  readonly recordSuccess = (): void => {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  };
+
+  /**
+   * Records a failed request, opening the circuit once the threshold is reached
+   * or if the request was a trial of a half-open circuit.
+   *
+   * @param now The current time in milliseconds since the Unix epoch.
+   */
+  readonly recordFailure = (now = Date.now()): void => {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.failures >= this.threshold || this.openedAt !== null) {
+      this.openedAt = now;
+    }
+  };
+}
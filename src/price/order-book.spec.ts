@@ -0,0 +1,34 @@
+import { getOrderBookPrice } from './order-book';
+
+describe('getOrderBookPrice', () => {
+  const book = {
+    bids: [
+      { price: 598000, amount: 2 },
+      { price: 597000, amount: 1 },
+    ],
+    asks: [
+      { price: 602000, amount: 1 },
+      { price: 603000, amount: 3 },
+    ],
+  };
+
+  it('takes the best bid, the best ask or the mid price', () => {
+    expect(getOrderBookPrice(book, 'bid')).toBe(598000);
+    expect(getOrderBookPrice(book, 'ask')).toBe(602000);
+    expect(getOrderBookPrice(book, 'mid')).toBe(600000);
+  });
+
+  it('only needs the side of the book the price is taken from', () => {
+    expect(getOrderBookPrice({ ...book, asks: [] }, 'bid')).toBe(598000);
+    expect(getOrderBookPrice({ ...book, bids: [] }, 'ask')).toBe(602000);
+  });
+
+  it('throws when a side the price needs is empty', () => {
+    expect(() => getOrderBookPrice({ ...book, bids: [] }, 'bid')).toThrow(
+      'The order book is empty',
+    );
+    expect(() => getOrderBookPrice({ ...book, asks: [] }, 'mid')).toThrow(
+      'The order book is empty',
+    );
+  });
+});
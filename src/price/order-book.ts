@@ -0,0 +1,30 @@
+import { OrderBook, PriceSide } from './price-provider.interface';
+
+/**
+ * Takes a price from an order book.
+ *
+ * @param {OrderBook} book The order book.
+ * @param {PriceSide} side The best bid, the best ask, or the mid price between them.
+ *
+ * @returns {number} The price, expressed in the quote currency.
+ *
+ * @throws {Error} Throws an error if the side of the order book the price needs is empty.
+ */
+export const getOrderBookPrice = (book: OrderBook, side: PriceSide): number => {
+  const [bid] = book.bids;
+  const [ask] = book.asks;
+
+  if ((side !== 'ask' && !bid) || (side !== 'bid' && !ask)) {
+    throw new Error('The order book is empty');
+  }
+
+  if (side === 'bid') {
+    return bid.price;
+  }
+
+  if (side === 'ask') {
+    return ask.price;
+  }
+
+  return (bid.price + ask.price) / 2;
+};
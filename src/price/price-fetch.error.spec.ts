@@ -0,0 +1,102 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { PriceFetchError, PriceUnavailableError } from './price-fetch.error';
+
+describe('PriceFetchError', () => {
+  /**
+   * Creates the error axios throws for a response with the given status.
+   */
+  const httpError = (status: number) =>
+    new AxiosError(
+      `Request failed with status code ${status}`,
+      undefined,
+      {
+        headers: new AxiosHeaders(),
+      },
+      undefined,
+      {
+        status,
+        statusText: '',
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+        data: {},
+      },
+    );
+
+  describe('from', () => {
+    it('describes HTTP errors with their status', () => {
+      const error = PriceFetchError.from(httpError(503), 'Nobitex', 'BTCIRT');
+
+      expect(error).toMatchObject({
+        provider: 'Nobitex',
+        market: 'BTCIRT',
+        reason: 'http',
+        status: 503,
+        message: 'Nobitex failed to fetch BTCIRT: HTTP 503',
+      });
+    });
+
+    it('describes timeouts and network errors', () => {
+      expect(
+        PriceFetchError.from(
+          new AxiosError('timeout of 5000ms exceeded', 'ECONNABORTED'),
+          'Nobitex',
+          'BTCIRT',
+        ).reason,
+      ).toBe('timeout');
+      expect(
+        PriceFetchError.from(
+          new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED'),
+          'Nobitex',
+          undefined,
+        ),
+      ).toMatchObject({
+        reason: 'network',
+        message: 'Nobitex failed to fetch the market list: ECONNREFUSED',
+      });
+    });
+
+    it('describes any other error as an invalid response', () => {
+      expect(
+        PriceFetchError.from(new Error('Unknown market'), 'Wallex', 'BTCIRT'),
+      ).toMatchObject({ reason: 'invalid-response', detail: 'Unknown market' });
+    });
+
+    it('keeps errors that are already typed', () => {
+      const error = new PriceFetchError('Nobitex', 'BTCIRT', 'timeout', 'slow');
+
+      expect(PriceFetchError.from(error, 'Wallex', 'USDTIRT')).toBe(error);
+    });
+  });
+
+  describe('isTransient', () => {
+    it('retries timeouts, network errors, rate limiting and server errors only', () => {
+      const transient = (reason: PriceFetchError['reason'], status?: number) =>
+        new PriceFetchError('Nobitex', 'BTCIRT', reason, '', status)
+          .isTransient;
+
+      expect(transient('timeout')).toBe(true);
+      expect(transient('network')).toBe(true);
+      expect(transient('http', 429)).toBe(true);
+      expect(transient('http', 502)).toBe(true);
+      expect(transient('http', 404)).toBe(false);
+      expect(transient('invalid-response')).toBe(false);
+      expect(transient('circuit-open')).toBe(false);
+    });
+  });
+});
+
+describe('PriceUnavailableError', () => {
+  it('lists why each provider failed', () => {
+    const error = new PriceUnavailableError('BTCIRT', [
+      new PriceFetchError('Nobitex', 'BTCIRT', 'http', 'HTTP 503', 503),
+      new PriceFetchError('Wallex', 'BTCIRT', 'timeout', 'timed out'),
+    ]);
+
+    expect(error.message).toBe(
+      'No provider could supply BTCIRT: Nobitex (HTTP 503), Wallex (timed out)',
+    );
+    expect(new PriceUnavailableError(undefined, []).message).toBe(
+      'No provider could supply the market list: no provider supports it',
+    );
+  });
+});
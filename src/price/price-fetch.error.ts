@@ -0,0 +1,143 @@
+import axios from 'axios';
+
+/**
+ * Why a request to a price provider failed.
+ * - `timeout`: the provider did not answer in time.
+ * - `network`: the provider could not be reached.
+ * - `http`: the provider answered with an error status.
+ * - `invalid-response`: the answer could not be used, e.g. an unknown market or an empty order book.
+ * - `circuit-open`: the provider failed too often recently, so it was not asked.
+ */
+export type PriceFetchFailure =
+  | 'timeout'
+  | 'network'
+  | 'http'
+  | 'invalid-response'
+  | 'circuit-open';
+
+/**
+ * A failed request to a single price provider.
+ */
+export class PriceFetchError extends Error {
+  readonly name = 'PriceFetchError';
+
+  /**
+   * @param provider The label of the provider (e.g. 'Nobitex').
+   * @param market The market symbol (e.g. 'BTCIRT'), or `undefined` for the market list.
+   * @param reason Why the request failed.
+   * @param detail A description of the failure (e.g. 'HTTP 503').
+   * @param status The HTTP status the provider answered with, if any.
+   * @param cause The original error, if any.
+   */
+  constructor(
+    readonly provider: string,
+    readonly market: string | undefined,
+    readonly reason: PriceFetchFailure,
+    readonly detail: string,
+    readonly status?: number,
+    readonly cause?: unknown,
+  ) {
+    super(
+      `${provider} failed to fetch ${market ?? 'the market list'}: ${detail}`,
+    );
+  }
+
+  /**
+   * Whether the failure is likely to go away on its own, so the request is worth retrying:
+   * timeouts, network errors, rate limiting and server errors.
+   */
+  get isTransient(): boolean {
+    return (
+      this.reason === 'timeout' ||
+      this.reason === 'network' ||
+      (this.reason === 'http' && (this.status === 429 || this.status >= 500))
+    );
+  }
+
+  /**
+   * Describes any error thrown while requesting a provider as a `PriceFetchError`.
+   *
+   * @param error The error thrown.
+   * @param provider The label of the provider.
+   * @param market The market symbol, or `undefined` for the market list.
+   *
+   * @returns The typed error.
+   */
+  static from(
+    error: unknown,
+    provider: string,
+    market: string | undefined,
+  ): PriceFetchError {
+    if (error instanceof PriceFetchError) {
+      return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        const { status } = error.response;
+
+        return new PriceFetchError(
+          provider,
+          market,
+          'http',
+          `HTTP ${status}`,
+          status,
+          error,
+        );
+      }
+
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        return new PriceFetchError(
+          provider,
+          market,
+          'timeout',
+          error.message,
+          undefined,
+          error,
+        );
+      }
+
+      return new PriceFetchError(
+        provider,
+        market,
+        'network',
+        error.code ?? error.message,
+        undefined,
+        error,
+      );
+    }
+
+    return new PriceFetchError(
+      provider,
+      market,
+      'invalid-response',
+      error instanceof Error ? error.message : String(error),
+      undefined,
+      error,
+    );
+  }
+}
+
+/**
+ * A market whose price (or order book, or market list) no provider could supply.
+ */
+export class PriceUnavailableError extends Error {
+  readonly name = 'PriceUnavailableError';
+
+  /**
+   * @param market The market symbol (e.g. 'BTCIRT'), or `undefined` for the market list.
+   * @param failures The failure of each provider that was tried, in priority order.
+   */
+  constructor(
+    readonly market: string | undefined,
+    readonly failures: PriceFetchError[],
+  ) {
+    super(
+      `No provider could supply ${market ?? 'the market list'}: ${
+        failures
+          .map(({ provider, detail }) => `${provider} (${detail})`)
+          .join(', ') || 'no provider supports it'
+      }`,
+    );
+  }
+}
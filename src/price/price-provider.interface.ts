@@ -0,0 +1,125 @@
+/**
+ * The side of the order book a price is taken from: the best bid, the best ask,
+ * or the mid price halfway between them.
+ */
+export type PriceSide = 'bid' | 'ask' | 'mid';
+
+/**
+ * A price level of an order book.
+ */
+export interface OrderBookLevel {
+  /**
+   * The price of the level, expressed in the quote currency.
+   */
+  price: number;
+
+  /**
+   * The amount offered at the level, expressed in the base currency.
+   */
+  amount: number;
+}
+
+/**
+ * The open orders of a market.
+ */
+export interface OrderBook {
+  /**
+   * The buy orders, best (highest) price first.
+   */
+  bids: OrderBookLevel[];
+
+  /**
+   * The sell orders, best (lowest) price first.
+   */
+  asks: OrderBookLevel[];
+}
+
+/**
+ * A source of market prices, such as an exchange API.
+ */
+export interface PriceProvider {
+  /**
+   * The unique, lowercase identifier of the provider (e.g. 'nobitex').
+   * Used to reference the provider in the `PRICE_PROVIDERS` configuration.
+   */
+  readonly name: string;
+
+  /**
+   * The human-readable name of the provider, shown to users next to each price.
+   */
+  readonly label: string;
+
+  /**
+   * Fetches the current price of a market.
+   *
+   * @param symbol The market symbol (e.g. 'USDTIRT').
+   * @param side The side of the order book to take the price from. Providers without
+   *             an order book may ignore it.
+   *
+   * @returns A promise that resolves to the price, expressed in the quote currency.
+   */
+  getPrice(symbol: string, side: PriceSide): Promise<number>;
+
+  /**
+   * Fetches the order book of a market.
+   * Optional, as not every provider has an order book.
+   *
+   * @param symbol The market symbol (e.g. 'USDTIRT').
+   *
+   * @returns A promise that resolves to the order book, with prices expressed in the quote currency.
+   */
+  getOrderBook?(symbol: string): Promise<OrderBook>;
+
+  /**
+   * Lists the symbols of all markets the provider offers.
+   * Optional, as not every provider has a market-list endpoint.
+   *
+   * @returns A promise that resolves to the market symbols (e.g. 'BTCIRT').
+   */
+  getMarkets?(): Promise<string[]>;
+}
+
+/**
+ * A price together with the provider it was fetched from.
+ */
+export interface Quote {
+  /**
+   * The market symbol (e.g. 'USDTIRT').
+   */
+  symbol: string;
+
+  /**
+   * The price, expressed in the quote currency.
+   */
+  price: number;
+
+  /**
+   * The side of the order book the price was taken from.
+   */
+  side: PriceSide;
+
+  /**
+   * The label of the provider that supplied the price.
+   */
+  source: string;
+
+  /**
+   * The time the price was fetched at, in milliseconds since the Unix epoch.
+   */
+  fetchedAt: number;
+
+  /**
+   * Whether the price is the last known good price, served because it could not be fetched anew.
+   */
+  stale?: boolean;
+}
+
+/**
+ * Injection token for the list of all available price providers.
+ */
+export const PRICE_PROVIDERS = Symbol('PRICE_PROVIDERS');
+
+/**
+ * Injection token for the HTTP client (an `AxiosInstance`) the price providers call their APIs with.
+ */
+export const PRICE_HTTP_CLIENT = Symbol('PRICE_HTTP_CLIENT');
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+import { PRICE_HTTP_CLIENT, PRICE_PROVIDERS } from './price-provider.interface';
+import { getProviderTimeout, PriceService } from './price.service';
+import { NobitexPriceProvider } from './providers/nobitex.provider';
+import { StaticPriceProvider } from './providers/static.provider';
+import { WallexPriceProvider } from './providers/wallex.provider';
+
+@Module({
+  providers: [
+    {
+      provide: PRICE_HTTP_CLIENT,
+      useFactory: () => axios.create({ timeout: getProviderTimeout() }),
+    },
+    {
+      provide: PRICE_PROVIDERS,
+      useFactory: (http: AxiosInstance) => [
+        new NobitexPriceProvider(
+          http,
+          process.env.NOBITEX_API_URL || undefined,
+        ),
+        new WallexPriceProvider(http, process.env.WALLEX_API_URL || undefined),
+        StaticPriceProvider.fromString(process.env.STATIC_PRICES),
+      ],
+      inject: [PRICE_HTTP_CLIENT],
+    },
+    PriceService,
+  ],
+  exports: [PriceService],
+})
+export class PriceModule {}
@@ -0,0 +1,169 @@
+import { Logger } from '@nestjs/common';
+import { PriceFetchError, PriceUnavailableError } from './price-fetch.error';
+import { PriceProvider } from './price-provider.interface';
+import { PriceService } from './price.service';
+
+describe('PriceService', () => {
+  const env = { ...process.env };
+
+  let nobitex: jest.Mocked<PriceProvider>;
+  let wallex: jest.Mocked<PriceProvider>;
+
+  /**
+   * Creates the service with the fake providers, once the environment is set up.
+   */
+  const createPriceService = () => new PriceService([nobitex, wallex]);
+
+  /**
+   * Creates a failure that is worth retrying.
+   */
+  const networkError = (provider: string) =>
+    new PriceFetchError(provider, 'BTCIRT', 'network', 'ECONNRESET');
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2025-01-01T10:00:00Z') });
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    Object.assign(process.env, {
+      PRICE_PROVIDERS: 'nobitex,wallex',
+      PRICE_PROVIDER_TIMEOUT: '1000',
+      PRICE_CACHE_TTL: '0',
+      PRICE_RETRIES: '0',
+      PRICE_CIRCUIT_THRESHOLD: '2',
+      PRICE_CIRCUIT_RESET: '60000',
+      PRICE_MAX_STALE_AGE: '3600000',
+    });
+
+    nobitex = { name: 'nobitex', label: 'Nobitex', getPrice: jest.fn() };
+    wallex = { name: 'wallex', label: 'Wallex', getPrice: jest.fn() };
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('retries transient failures with exponential backoff and jitter', async () => {
+    process.env.PRICE_RETRIES = '2';
+    process.env.PRICE_CIRCUIT_THRESHOLD = '5';
+    nobitex.getPrice
+      .mockRejectedValueOnce(networkError('Nobitex'))
+      .mockRejectedValueOnce(networkError('Nobitex'))
+      .mockResolvedValue(6000000000);
+    const quote = createPriceService().getPrice('BTCIRT');
+
+    // The delays are picked at random below 250ms, then below 500ms.
+    await jest.advanceTimersByTimeAsync(124);
+    expect(nobitex.getPrice).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(nobitex.getPrice).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(249);
+    expect(nobitex.getPrice).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(quote).resolves.toMatchObject({
+      price: 6000000000,
+      source: 'Nobitex',
+    });
+    expect(nobitex.getPrice).toHaveBeenCalledTimes(3);
+    expect(wallex.getPrice).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the next provider without retrying permanent failures', async () => {
+    process.env.PRICE_RETRIES = '2';
+    nobitex.getPrice.mockRejectedValue(new Error('Unknown market'));
+    wallex.getPrice.mockResolvedValue(6000000000);
+
+    await expect(
+      createPriceService().getPrice('BTCIRT', 'bid'),
+    ).resolves.toEqual({
+      symbol: 'BTCIRT',
+      price: 6000000000,
+      side: 'bid',
+      source: 'Wallex',
+      fetchedAt: Date.now(),
+    });
+    expect(nobitex.getPrice).toHaveBeenCalledTimes(1);
+    expect(wallex.getPrice).toHaveBeenCalledWith('BTCIRT', 'bid');
+  });
+
+  it('falls back to the next provider when one does not answer in time', async () => {
+    nobitex.getPrice.mockReturnValue(new Promise(() => {}));
+    wallex.getPrice.mockResolvedValue(6000000000);
+    const quote = createPriceService().getPrice('BTCIRT');
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(quote).resolves.toMatchObject({ source: 'Wallex' });
+  });
+
+  it('reports why each provider failed when none can supply the price', async () => {
+    nobitex.getPrice.mockRejectedValue(networkError('Nobitex'));
+    wallex.getPrice.mockRejectedValue(new Error('Unknown market'));
+
+    const error = await createPriceService()
+      .getPrice('BTCIRT')
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(PriceUnavailableError);
+    expect(error.failures.map(({ reason }) => reason)).toEqual([
+      'network',
+      'invalid-response',
+    ]);
+  });
+
+  it('serves the last known price, marked as stale, while it is recent enough', async () => {
+    const priceService = createPriceService();
+    nobitex.getPrice.mockResolvedValueOnce(6000000000);
+    await priceService.getPrice('BTCIRT');
+    nobitex.getPrice.mockRejectedValue(new Error('Unknown market'));
+    wallex.getPrice.mockRejectedValue(new Error('Unknown market'));
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    await expect(
+      priceService.getPriceOrLastKnown('BTCIRT'),
+    ).resolves.toMatchObject({ price: 6000000000, stale: true });
+    await expect(
+      priceService.getPriceOrLastKnown('BTCIRT', 'bid'),
+    ).rejects.toThrow(PriceUnavailableError);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(priceService.getPriceOrLastKnown('BTCIRT')).rejects.toThrow(
+      PriceUnavailableError,
+    );
+  });
+
+  it('skips a failing provider while its circuit is open, then tries it once', async () => {
+    const priceService = createPriceService();
+    nobitex.getPrice.mockRejectedValue(networkError('Nobitex'));
+    wallex.getPrice.mockResolvedValue(6000000000);
+    await priceService.getPrice('BTCIRT');
+    await priceService.getPrice('BTCIRT');
+
+    await expect(priceService.getPrice('BTCIRT')).resolves.toMatchObject({
+      source: 'Wallex',
+    });
+    expect(nobitex.getPrice).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    let answer: (price: number) => void;
+    nobitex.getPrice.mockReturnValueOnce(
+      new Promise((resolve) => (answer = resolve)),
+    );
+    const trial = priceService.getPrice('BTCIRT');
+
+    await expect(priceService.getPrice('USDTIRT')).resolves.toMatchObject({
+      source: 'Wallex',
+    });
+    expect(nobitex.getPrice).toHaveBeenCalledTimes(3);
+
+    answer(6100000000);
+    await expect(trial).resolves.toMatchObject({ source: 'Nobitex' });
+    nobitex.getPrice.mockResolvedValue(600000);
+    await expect(priceService.getPrice('USDTIRT')).resolves.toMatchObject({
+      source: 'Nobitex',
+    });
+  });
+});
@@ -0,0 +1,453 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { readNumberEnv } from 'src/common/env';
+import { sleep } from 'src/common/sleep';
+import { CircuitBreaker } from './circuit-breaker';
+import { PriceFetchError, PriceUnavailableError } from './price-fetch.error';
+import {
+  OrderBook,
+  PRICE_PROVIDERS,
+  PriceProvider,
+  PriceSide,
+  Quote,
+} from './price-provider.interface';
+
+/**
+ * The default time in milliseconds a provider has to answer before the next one is tried.
+ */
+const DEFAULT_TIMEOUT = 5000;
+
+/**
+ * Reads the time in milliseconds a provider has to answer from `PRICE_PROVIDER_TIMEOUT`.
+ *
+ * @returns The timeout.
+ */
+export const getProviderTimeout = (): number =>
+  readNumberEnv('PRICE_PROVIDER_TIMEOUT', DEFAULT_TIMEOUT, {
+    allowZero: false,
+  });
+
+/**
+ * The default time in milliseconds a fetched price is reused for.
+ */
+const DEFAULT_CACHE_TTL = 10 * 1000;
+
+/**
+ * The default number of times a request is retried after a transient failure.
+ */
+const DEFAULT_RETRIES = 2;
+
+/**
+ * The upper bound in milliseconds of the delay before the first retry; it doubles on every further retry.
+ * The actual delay is picked at random below it, so retries of many requests do not line up.
+ */
+const RETRY_BASE_DELAY = 250;
+
+/**
+ * The default number of consecutive failures after which a provider is no longer asked for a while.
+ */
+const DEFAULT_CIRCUIT_THRESHOLD = 5;
+
+/**
+ * The default time in milliseconds a provider is no longer asked for once its circuit opens.
+ */
+const DEFAULT_CIRCUIT_RESET = 60 * 1000;
+
+/**
+ * The default maximum age in milliseconds of the last known good price served when fetching fails.
+ */
+const DEFAULT_MAX_STALE_AGE = 60 * 60 * 1000;
+
+/**
+ * The `PriceService` class fetches market prices from the configured price providers.
+ *
+ * Providers are tried in the priority order given by the `PRICE_PROVIDERS` environment
+ * variable (e.g. `nobitex,wallex`). When a provider fails or does not answer within
+ * `PRICE_PROVIDER_TIMEOUT` milliseconds, the next one is tried.
+ *
+ * Transient failures (timeouts, network and server errors) are retried up to `PRICE_RETRIES`
+ * times with exponential backoff and jitter. Each provider has a circuit breaker: after
+ * `PRICE_CIRCUIT_THRESHOLD` consecutive failures, it is skipped for `PRICE_CIRCUIT_RESET`
+ * milliseconds. Failures are reported as `PriceFetchError` and `PriceUnavailableError`.
+ *
+ * Fetched prices are cached for `PRICE_CACHE_TTL` milliseconds, and concurrent requests
+ * for the same market share a single fetch, so bursts of requests (e.g. on-demand
+ * commands and inline queries) do not hammer the exchange APIs. The last good price of each
+ * market is also kept, to be served for up to `PRICE_MAX_STALE_AGE` milliseconds when
+ * fetching fails (see `getPriceOrLastKnown`).
+ */
+@Injectable()
+export class PriceService {
+  /**
+   * A logger instance for the PriceService class.
+   */
+  private readonly logger = new Logger(PriceService.name);
+
+  /**
+   * The enabled providers, in priority order.
+   */
+  private readonly providers: PriceProvider[];
+
+  /**
+   * The time in milliseconds a provider has to answer.
+   */
+  private readonly timeout: number;
+
+  /**
+   * The time in milliseconds a fetched price is reused for.
+   */
+  private readonly cacheTtl: number;
+
+  /**
+   * The number of times a request is retried after a transient failure.
+   */
+  private readonly retries: number;
+
+  /**
+   * The maximum age in milliseconds of the last known good price served when fetching fails.
+   */
+  private readonly maxStaleAge: number;
+
+  /**
+   * The circuit breaker of each enabled provider, keyed by provider name.
+   */
+  private readonly breakers: Map<string, CircuitBreaker> = new Map();
+
+  /**
+   * The cached and in-flight price requests, keyed by market symbol and side.
+   * In-flight requests never expire; settled ones expire `cacheTtl` milliseconds after settling.
+   */
+  private readonly cache: Map<
+    string,
+    { quote: Promise<Quote>; expiresAt: number }
+  > = new Map();
+
+  /**
+   * The latest successfully fetched price of each market and side, and the time it was fetched at.
+   */
+  private readonly latestQuotes: Map<
+    string,
+    { quote: Quote; fetchedAt: number }
+  > = new Map();
+
+  /**
+   * @param availableProviders All price providers known to the application.
+   */
+  constructor(@Inject(PRICE_PROVIDERS) availableProviders: PriceProvider[]) {
+    const names = (process.env.PRICE_PROVIDERS ?? 'nobitex,wallex')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    this.providers = names.map((name) => {
+      const provider = availableProviders.find((p) => p.name === name);
+
+      if (!provider) {
+        throw new Error(`Unknown price provider: ${name}`);
+      }
+
+      return provider;
+    });
+    this.timeout = getProviderTimeout();
+    this.cacheTtl = readNumberEnv('PRICE_CACHE_TTL', DEFAULT_CACHE_TTL);
+    this.retries = readNumberEnv('PRICE_RETRIES', DEFAULT_RETRIES);
+    this.maxStaleAge = readNumberEnv(
+      'PRICE_MAX_STALE_AGE',
+      DEFAULT_MAX_STALE_AGE,
+    );
+
+    const threshold = readNumberEnv(
+      'PRICE_CIRCUIT_THRESHOLD',
+      DEFAULT_CIRCUIT_THRESHOLD,
+      { allowZero: false },
+    );
+    const resetTimeout = readNumberEnv(
+      'PRICE_CIRCUIT_RESET',
+      DEFAULT_CIRCUIT_RESET,
+      { allowZero: false },
+    );
+
+    for (const { name } of this.providers) {
+      this.breakers.set(name, new CircuitBreaker(threshold, resetTimeout));
+    }
+  }
+
+  /**
+   * Returns the price of a market, from the cache if it is fresh enough.
+   * Failed requests are not cached.
+   *
+   * @param {string} symbol The market symbol (e.g. 'USDTIRT').
+   * @param {PriceSide} side The side of the order book to take the price from; the best ask by default.
+   *
+   * @returns {Promise<Quote>} A promise that resolves to the price and the provider it came from.
+   *
+   * @throws {PriceUnavailableError} Throws an error if none of the providers could supply the price.
+   */
+  readonly getPrice = (
+    symbol: string,
+    side: PriceSide = 'ask',
+  ): Promise<Quote> => {
+    const key = `${symbol}:${side}`;
+    const cached = this.cache.get(key);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.quote;
+    }
+
+    const entry = {
+      quote: this.fetchPrice(symbol, side),
+      expiresAt: Infinity,
+    };
+    this.cache.set(key, entry);
+
+    entry.quote.then(
+      () => {
+        entry.expiresAt = Date.now() + this.cacheTtl;
+      },
+      () => {
+        if (this.cache.get(key) === entry) {
+          this.cache.delete(key);
+        }
+      },
+    );
+
+    return entry.quote;
+  };
+
+  /**
+   * Returns the price of a market like `getPrice`, but falls back to the last known good
+   * price, marked as stale, when no provider can supply it and that price is at most
+   * `PRICE_MAX_STALE_AGE` milliseconds old.
+   *
+   * @param {string} symbol The market symbol (e.g. 'USDTIRT').
+   * @param {PriceSide} side The side of the order book to take the price from; the best ask by default.
+   *
+   * @returns {Promise<Quote>} A promise that resolves to the current or the last known good price.
+   *
+   * @throws {PriceUnavailableError} Throws an error if the price could not be fetched and no recent price is known.
+   */
+  readonly getPriceOrLastKnown = async (
+    symbol: string,
+    side: PriceSide = 'ask',
+  ): Promise<Quote> => {
+    try {
+      return await this.getPrice(symbol, side);
+    } catch (error) {
+      const latest = this.latestQuotes.get(`${symbol}:${side}`);
+
+      if (!latest || Date.now() - latest.fetchedAt > this.maxStaleAge) {
+        throw error;
+      }
+
+      this.logger.warn(
+        `Serving the last known ${symbol} price from ${new Date(latest.fetchedAt).toISOString()}`,
+      );
+
+      return { ...latest.quote, stale: true };
+    }
+  };
+
+  /**
+   * Fetches the price of a market, falling back to the next provider on failure.
+   *
+   * @param {string} symbol The market symbol (e.g. 'USDTIRT').
+   * @param {PriceSide} side The side of the order book to take the price from.
+   *
+   * @returns {Promise<Quote>} A promise that resolves to the price and the provider it came from.
+   *
+   * @throws {PriceUnavailableError} Throws an error if none of the providers could supply the price.
+   */
+  private readonly fetchPrice = async (
+    symbol: string,
+    side: PriceSide,
+  ): Promise<Quote> => {
+    const { result: price, provider } = await this.requestAny(
+      symbol,
+      this.providers,
+      (provider) => provider.getPrice(symbol, side),
+    );
+    const quote: Quote = {
+      symbol,
+      price,
+      side,
+      source: provider.label,
+      fetchedAt: Date.now(),
+    };
+
+    this.latestQuotes.set(`${symbol}:${side}`, {
+      quote,
+      fetchedAt: quote.fetchedAt,
+    });
+
+    return quote;
+  };
+
+  /**
+   * Fetches the order book of a market from the first provider, in priority order,
+   * that has an order book and answers successfully. Order books are not cached.
+   *
+   * @param {string} symbol The market symbol (e.g. 'USDTIRT').
+   *
+   * @returns {Promise<{ book: OrderBook; source: string }>} A promise that resolves to the order book
+   *              and the label of the provider it came from.
+   *
+   * @throws {PriceUnavailableError} Throws an error if no provider could supply the order book.
+   */
+  readonly getOrderBook = async (
+    symbol: string,
+  ): Promise<{ book: OrderBook; source: string }> => {
+    const { result: book, provider } = await this.requestAny(
+      symbol,
+      this.providers.filter((provider) => provider.getOrderBook),
+      (provider) => provider.getOrderBook(symbol),
+    );
+
+    return { book, source: provider.label };
+  };
+
+  /**
+   * Lists the latest successfully fetched price of each market and side, without fetching.
+   *
+   * @returns The latest quotes and the times, in milliseconds since the Unix epoch, they were fetched at.
+   */
+  readonly listLatestQuotes = (): { quote: Quote; fetchedAt: number }[] =>
+    Array.from(this.latestQuotes.values());
+
+  /**
+   * Lists the markets offered by the first provider, in priority order,
+   * that has a market-list endpoint and answers successfully.
+   *
+   * @returns {Promise<string[]>} A promise that resolves to the market symbols.
+   *
+   * @throws {PriceUnavailableError} Throws an error if no provider could list its markets.
+   */
+  readonly getMarkets = async (): Promise<string[]> => {
+    const { result } = await this.requestAny(
+      undefined,
+      this.providers.filter((provider) => provider.getMarkets),
+      (provider) => provider.getMarkets(),
+    );
+
+    return result;
+  };
+
+  /**
+   * Requests the given providers in priority order until one of them answers.
+   *
+   * @param market The market symbol, or `undefined` for the market list; used in errors.
+   * @param providers The providers to request.
+   * @param fetch Requests a provider.
+   *
+   * @returns The answer and the provider that gave it.
+   *
+   * @throws {PriceUnavailableError} Throws an error listing why each provider failed.
+   */
+  private readonly requestAny = async <T>(
+    market: string | undefined,
+    providers: PriceProvider[],
+    fetch: (provider: PriceProvider) => Promise<T>,
+  ): Promise<{ result: T; provider: PriceProvider }> => {
+    const failures: PriceFetchError[] = [];
+
+    for (const provider of providers) {
+      try {
+        return {
+          result: await this.request(provider, market, () => fetch(provider)),
+          provider,
+        };
+      } catch (error) {
+        this.logger.warn(error.message);
+        failures.push(error);
+      }
+    }
+
+    throw new PriceUnavailableError(market, failures);
+  };
+
+  /**
+   * Requests a provider, unless its circuit is open, retrying transient failures
+   * with exponential backoff and full jitter.
+   *
+   * @param provider The provider to request.
+   * @param market The market symbol, or `undefined` for the market list; used in errors.
+   * @param fetch Requests the provider.
+   *
+   * @returns The answer of the provider.
+   *
+   * @throws {PriceFetchError} Throws an error describing the last failure.
+   */
+  private readonly request = async <T>(
+    provider: PriceProvider,
+    market: string | undefined,
+    fetch: () => Promise<T>,
+  ): Promise<T> => {
+    const breaker = this.breakers.get(provider.name);
+
+    if (!breaker.tryRequest()) {
+      throw new PriceFetchError(
+        provider.label,
+        market,
+        'circuit-open',
+        'too many recent failures, skipping',
+      );
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.withTimeout(fetch(), provider, market);
+        breaker.recordSuccess();
+
+        return result;
+      } catch (cause) {
+        const error = PriceFetchError.from(cause, provider.label, market);
+
+        if (!error.isTransient) {
+          // The provider answered, so it is up as far as its circuit is concerned.
+          breaker.recordSuccess();
+          throw error;
+        }
+
+        breaker.recordFailure();
+
+        if (attempt >= this.retries || breaker.isOpen()) {
+          throw error;
+        }
+
+        await sleep(RETRY_BASE_DELAY * 2 ** attempt * Math.random());
+      }
+    }
+  };
+
+  /**
+   * Rejects if the given promise does not settle within the configured timeout.
+   *
+   * @param promise The promise to race against the timeout.
+   * @param provider The provider the promise is requesting.
+   * @param market The market symbol, or `undefined` for the market list.
+   *
+   * @returns A promise that settles like `promise`, or rejects with a `PriceFetchError` on timeout.
+   */
+  private readonly withTimeout = <T>(
+    promise: Promise<T>,
+    provider: PriceProvider,
+    market: string | undefined,
+  ): Promise<T> => {
+    let timer: NodeJS.Timeout;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new PriceFetchError(
+              provider.label,
+              market,
+              'timeout',
+              `timed out after ${this.timeout}ms`,
+            ),
+          ),
+        this.timeout,
+      );
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  };
+}
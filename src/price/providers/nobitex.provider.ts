@@ -0,0 +1,54 @@
+import axios, { AxiosInstance } from 'axios';
+import { getOrderBookPrice } from '../order-book';
+import {
+  OrderBook,
+  PriceProvider,
+  PriceSide,
+} from '../price-provider.interface';
+
+/**
+ * Fetches prices from the Nobitex order book API.
+ * The price of a market is its best bid, best ask or mid price. Rial prices are rounded to whole Rials.
+ */
+export class NobitexPriceProvider implements PriceProvider {
+  readonly name = 'nobitex';
+
+  readonly label = 'Nobitex';
+
+  /**
+   * @param http The HTTP client used to call the API, e.g. configured with a request timeout.
+   * @param baseUrl The base URL of the API, e.g. a proxy or a stand-in server for tests.
+   */
+  constructor(
+    private readonly http: AxiosInstance = axios,
+    private readonly baseUrl = 'https://api.nobitex.ir',
+  ) {}
+
+  async getPrice(symbol: string, side: PriceSide): Promise<number> {
+    const price = getOrderBookPrice(await this.getOrderBook(symbol), side);
+
+    return symbol.endsWith('IRT') ? Math.round(price) : price;
+  }
+
+  async getOrderBook(symbol: string): Promise<OrderBook> {
+    const response = await this.http.get(
+      `${this.baseUrl}/v2/orderbook/${symbol}`,
+    );
+    const toLevels = (levels: [string, string][] = []) =>
+      levels.map(([price, amount]) => ({
+        price: Number(price),
+        amount: Number(amount),
+      }));
+
+    return {
+      bids: toLevels(response.data.bids),
+      asks: toLevels(response.data.asks),
+    };
+  }
+
+  async getMarkets(): Promise<string[]> {
+    const response = await this.http.get(`${this.baseUrl}/v2/orderbook/all`);
+
+    return Object.keys(response.data).filter((key) => key !== 'status');
+  }
+}
@@ -0,0 +1,46 @@
+import { PriceProvider } from '../price-provider.interface';
+
+/**
+ * Serves fixed prices from the `STATIC_PRICES` environment variable,
+ * formatted as `SYMBOL=PRICE` pairs separated by commas (e.g. `USDTIRT=900000,BTCIRT=6000000000`).
+ * The same price is served for every side of the order book.
+ * Intended for tests and local development without network access.
+ */
+export class StaticPriceProvider implements PriceProvider {
+  readonly name = 'static';
+
+  readonly label = 'Static';
+
+  /**
+   * @param prices The fixed prices, keyed by market symbol.
+   */
+  constructor(private readonly prices: Map<string, number>) {}
+
+  /**
+   * Creates a provider from a `SYMBOL=PRICE,...` string.
+   *
+   * @param value The string to parse.
+   *
+   * @returns The provider serving the parsed prices.
+   */
+  static fromString(value = ''): StaticPriceProvider {
+    const prices = value
+      .split(',')
+      .map((pair) => pair.split('='))
+      .filter(([symbol, price]) => symbol && price)
+      .map(([symbol, price]): [string, number] => [
+        symbol.trim(),
+        Number(price),
+      ]);
+
+    return new StaticPriceProvider(new Map(prices));
+  }
+
+  async getPrice(symbol: string): Promise<number> {
+    if (!this.prices.has(symbol)) {
+      throw new Error(`No static price configured for ${symbol}`);
+    }
+
+    return this.prices.get(symbol);
+  }
+}
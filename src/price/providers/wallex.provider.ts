@@ -0,0 +1,54 @@
+import axios, { AxiosInstance } from 'axios';
+import { getOrderBookPrice } from '../order-book';
+import {
+  OrderBook,
+  PriceProvider,
+  PriceSide,
+} from '../price-provider.interface';
+
+/**
+ * Fetches prices from the Wallex order book API.
+ * The price of a market is its best bid, best ask or mid price.
+ *
+ * Wallex quotes Iranian markets in Toman (`TMN`) rather than Rial (`IRT`),
+ * so those symbols and prices are converted to match the Nobitex conventions.
+ */
+export class WallexPriceProvider implements PriceProvider {
+  readonly name = 'wallex';
+
+  readonly label = 'Wallex';
+
+  /**
+   * @param http The HTTP client used to call the API, e.g. configured with a request timeout.
+   * @param baseUrl The base URL of the API, e.g. a proxy or a stand-in server for tests.
+   */
+  constructor(
+    private readonly http: AxiosInstance = axios,
+    private readonly baseUrl = 'https://api.wallex.ir',
+  ) {}
+
+  async getPrice(symbol: string, side: PriceSide): Promise<number> {
+    const price = getOrderBookPrice(await this.getOrderBook(symbol), side);
+
+    return symbol.endsWith('IRT') ? Math.round(price) : price;
+  }
+
+  async getOrderBook(symbol: string): Promise<OrderBook> {
+    const isToman = symbol.endsWith('IRT');
+    const response = await this.http.get(`${this.baseUrl}/v1/depth`, {
+      params: { symbol: isToman ? symbol.replace(/IRT$/, 'TMN') : symbol },
+    });
+    const toLevels = (
+      levels: { price: number | string; quantity: number | string }[] = [],
+    ) =>
+      levels.map(({ price, quantity }) => ({
+        price: isToman ? Number(price) * 10 : Number(price),
+        amount: Number(quantity),
+      }));
+
+    return {
+      bids: toLevels(response.data.result.bid),
+      asks: toLevels(response.data.result.ask),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * A handle to a timer set with a `Clock`.
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Clock is the source of time and timers of the `SchedulerService`.
+ * It is used as the injection token, so that tests can substitute a fake clock
+ * and move time forward without waiting.
+ */
+export abstract class Clock {
+  /**
+   * Returns the current time.
+   *
+   * @returns The current time in milliseconds since the Unix epoch.
+   */
+  abstract now(): number;
+
+  /**
+   * Calls a function once after a delay.
+   *
+   * @param callback The function to call.
+   * @param delay The delay in milliseconds.
+   *
+   * @returns A handle to cancel the timer with.
+   */
+  abstract setTimeout(callback: () => void, delay: number): TimerHandle;
+
+  /**
+   * Cancels a timer.
+   *
+   * @param handle The handle returned by `setTimeout`.
+   */
+  abstract clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * A `Clock` implementation backed by the system time and the Node.js timers.
+ */
+export class SystemClock extends Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    return setTimeout(callback, delay);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    clearTimeout(handle as NodeJS.Timeout);
+  }
+}
@@ -0,0 +1,82 @@
+import { CronExpression } from './cron-expression';
+
+describe('CronExpression', () => {
+  const at = (iso: string) => Date.parse(iso);
+
+  it('finds the next matching minute in UTC', () => {
+    const cron = new CronExpression('*/15 * * * *');
+
+    expect(cron.next(at('2025-01-01T10:07:30Z'))).toBe(
+      at('2025-01-01T10:15:00Z'),
+    );
+    expect(cron.next(at('2025-01-01T10:45:00Z'))).toBe(
+      at('2025-01-01T11:00:00Z'),
+    );
+  });
+
+  it('evaluates the expression in the given time zone', () => {
+    // Tehran is UTC+3:30.
+    const cron = new CronExpression('0 8 * * *', 'Asia/Tehran');
+
+    expect(cron.next(at('2025-01-01T00:00:00Z'))).toBe(
+      at('2025-01-01T04:30:00Z'),
+    );
+    expect(cron.next(at('2025-01-01T04:30:00Z'))).toBe(
+      at('2025-01-02T04:30:00Z'),
+    );
+  });
+
+  it('supports ranges, lists and days of week', () => {
+    // 2025-01-03 is a Friday.
+    const cron = new CronExpression('30 9,17 * * 1-5');
+
+    expect(cron.next(at('2025-01-03T17:30:00Z'))).toBe(
+      at('2025-01-06T09:30:00Z'),
+    );
+  });
+
+  it('treats 7 as Sunday', () => {
+    const cron = new CronExpression('0 0 * * 7');
+
+    expect(cron.next(at('2025-01-01T00:00:00Z'))).toBe(
+      at('2025-01-05T00:00:00Z'),
+    );
+  });
+
+  it('matches either the day of month or the day of week when both are set', () => {
+    // 2025-01-01 is a Wednesday; the next Monday is 2025-01-06.
+    const cron = new CronExpression('0 0 15 * 1');
+
+    expect(cron.next(at('2025-01-01T00:00:00Z'))).toBe(
+      at('2025-01-06T00:00:00Z'),
+    );
+    expect(cron.next(at('2025-01-13T00:00:00Z'))).toBe(
+      at('2025-01-15T00:00:00Z'),
+    );
+  });
+
+  it('skips months without the day', () => {
+    const cron = new CronExpression('0 12 31 * *');
+
+    expect(cron.next(at('2025-01-31T12:00:00Z'))).toBe(
+      at('2025-03-31T12:00:00Z'),
+    );
+  });
+
+  it.each(['* * * *', '60 * * * *', '* * 0 * *', '5-1 * * * *', '*/0 * * * *'])(
+    'rejects the invalid expression "%s"',
+    (expression) => {
+      expect(() => new CronExpression(expression)).toThrow();
+    },
+  );
+
+  it('rejects an invalid time zone', () => {
+    expect(() => new CronExpression('* * * * *', 'Mars/Olympus')).toThrow();
+  });
+
+  it('fails for expressions that never match', () => {
+    const cron = new CronExpression('0 0 31 2 *');
+
+    expect(() => cron.next(at('2025-01-01T00:00:00Z'))).toThrow();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * The fields of a cron expression, in order, with their allowed ranges.
+ */
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+/**
+ * The number of days searched for the next run before giving up, so that expressions
+ * that never match (e.g. `0 0 31 2 *`) do not loop forever.
+ */
+const MAX_SEARCH_DAYS = 4 * 366;
+
+/**
+ * The date and time fields of an instant in a time zone.
+ */
+interface ZonedTime {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+/**
+ * The weekdays as formatted by `Intl.DateTimeFormat` in English, in cron order.
+ */
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * A standard five-field cron expression (`minute hour day-of-month month day-of-week`),
+ * evaluated in a time zone.
+ *
+ * Every field accepts `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and lists
+ * of those (`0,30`). Day of week runs from 0 (Sunday) to 6, with 7 as another Sunday.
+ * As in cron, when both the day of month and the day of week are restricted,
+ * a day matches if either of them does.
+ */
+export class CronExpression {
+  /**
+   * The allowed values of each field, in the order of `FIELDS`.
+   */
+  private readonly values: Set<number>[];
+
+  /**
+   * Whether the day of month field is `*`.
+   */
+  private readonly anyDayOfMonth: boolean;
+
+  /**
+   * Whether the day of week field is `*`.
+   */
+  private readonly anyDayOfWeek: boolean;
+
+  /**
+   * The formatter giving the date and time fields in the time zone.
+   */
+  private readonly formatter: Intl.DateTimeFormat;
+
+  /**
+   * @param expression The cron expression, e.g. `0 8 * * *` for every day at 8:00.
+   * @param timeZone The IANA time zone the expression is evaluated in, e.g. `Asia/Tehran`.
+   *
+   * @throws {Error} Throws an error if the expression or the time zone is invalid.
+   */
+  constructor(
+    readonly expression: string,
+    readonly timeZone = 'UTC',
+  ) {
+    const fields = expression.trim().split(/\s+/);
+
+    if (fields.length !== FIELDS.length) {
+      throw new Error(
+        `Invalid cron expression "${expression}": expected ${FIELDS.length} fields`,
+      );
+    }
+
+    this.values = fields.map((field, index) =>
+      this.parseField(field, FIELDS[index]),
+    );
+
+    if (this.values[4].has(7)) {
+      this.values[4].add(0);
+    }
+
+    this.anyDayOfMonth = fields[2] === '*';
+    this.anyDayOfWeek = fields[4] === '*';
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+  }
+
+  /**
+   * Finds the first time after the given time that matches the expression.
+   *
+   * @param after The time to search from, in milliseconds since the Unix epoch.
+   *
+   * @returns The next matching time, at the start of a minute, in milliseconds since the Unix epoch.
+   *
+   * @throws {Error} Throws an error if the expression does not match within the next four years.
+   */
+  readonly next = (after: number): number => {
+    let time = (Math.floor(after / 60000) + 1) * 60000;
+    const limit = time + MAX_SEARCH_DAYS * 24 * 60 * 60000;
+
+    while (time <= limit) {
+      const { minute, hour, day, month, weekday } = this.getZonedTime(time);
+
+      if (!this.values[3].has(month) || !this.matchesDay(day, weekday)) {
+        // Skip to the next midnight in the time zone.
+        time += ((23 - hour) * 60 + (60 - minute)) * 60000;
+      } else if (!this.values[1].has(hour)) {
+        time += (60 - minute) * 60000;
+      } else if (!this.values[0].has(minute)) {
+        time += 60000;
+      } else {
+        return time;
+      }
+    }
+
+    throw new Error(
+      `Cron expression "${this.expression}" does not match any time`,
+    );
+  };
+
+  /**
+   * Checks whether a day matches the day of month and day of week fields.
+   *
+   * @param day The day of month.
+   * @param weekday The day of week, from 0 (Sunday) to 6.
+   *
+   * @returns `true` if the day matches.
+   */
+  private readonly matchesDay = (day: number, weekday: number): boolean => {
+    const dayOfMonth = this.values[2].has(day);
+    const dayOfWeek = this.values[4].has(weekday);
+
+    if (!this.anyDayOfMonth && !this.anyDayOfWeek) {
+      return dayOfMonth || dayOfWeek;
+    }
+
+    return dayOfMonth && dayOfWeek;
+  };
+
+  /**
+   * Returns the date and time fields of a time in the time zone of the expression.
+   *
+   * @param time The time in milliseconds since the Unix epoch.
+   *
+   * @returns The date and time fields.
+   */
+  private readonly getZonedTime = (time: number): ZonedTime => {
+    const parts = Object.fromEntries(
+      this.formatter
+        .formatToParts(time)
+        .map(({ type, value }) => [type, value]),
+    );
+
+    return {
+      minute: Number(parts.minute),
+      hour: Number(parts.hour),
+      day: Number(parts.day),
+      month: Number(parts.month),
+      weekday: WEEKDAYS.indexOf(parts.weekday),
+    };
+  };
+
+  /**
+   * Parses a field of the expression into the set of values it allows.
+   *
+   * @param field The field, e.g. `*\/15` or `1-5`.
+   * @param range The name and the allowed range of the field.
+   *
+   * @returns The allowed values.
+   *
+   * @throws {Error} Throws an error if the field is invalid or out of range.
+   */
+  private readonly parseField = (
+    field: string,
+    range: (typeof FIELDS)[number],
+  ): Set<number> => {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+
+      if (!match) {
+        throw new Error(
+          `Invalid ${range.name} "${part}" in cron expression "${this.expression}"`,
+        );
+      }
+
+      const [, , from, to, step] = match;
+      const start = from === undefined ? range.min : Number(from);
+      const end =
+        to !== undefined
+          ? Number(to)
+          : from === undefined || step !== undefined
+            ? range.max
+            : start;
+      const increment = step === undefined ? 1 : Number(step);
+
+      if (start < range.min || end > range.max || start > end || !increment) {
+        throw new Error(
+          `Invalid ${range.name} "${part}" in cron expression "${this.expression}"`,
+        );
+      }
+
+      for (let value = start; value <= end; value += increment) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  };
+}
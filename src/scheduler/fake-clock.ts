@@ -0,0 +1,86 @@
+import { Clock, TimerHandle } from './clock';
+
+/**
+ * A `Clock` implementation for tests, whose time only moves when told to.
+ * Timers fire, in order, as `advance` moves the time past them.
+ */
+export class FakeClock extends Clock {
+  /**
+   * The pending timers, keyed by handle.
+   */
+  private readonly timers: Map<number, { callback: () => void; at: number }> =
+    new Map();
+
+  /**
+   * The handle of the next timer.
+   */
+  private nextHandle = 1;
+
+  /**
+   * @param time The initial time in milliseconds since the Unix epoch.
+   */
+  constructor(private time = 0) {
+    super();
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    const handle = this.nextHandle++;
+
+    this.timers.set(handle, {
+      callback,
+      at: this.time + Math.max(delay, 0),
+    });
+
+    return handle;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * The number of pending timers.
+   */
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Moves the time forward, firing every timer that falls due on the way, in order.
+   * Pending promise callbacks are flushed after every timer, so that async tasks
+   * settle as they would with real timers.
+   *
+   * @param ms The time to move forward by, in milliseconds.
+   */
+  readonly advance = async (ms: number): Promise<void> => {
+    const until = this.time + ms;
+
+    await flushPromises();
+
+    for (;;) {
+      const [handle, timer] =
+        Array.from(this.timers).sort(([, a], [, b]) => a.at - b.at)[0] ?? [];
+
+      if (!timer || timer.at > until) {
+        break;
+      }
+
+      this.timers.delete(handle);
+      this.time = Math.max(this.time, timer.at);
+      timer.callback();
+      await flushPromises();
+    }
+
+    this.time = until;
+  };
+}
+
+/**
+ * Resolves once the pending promise callbacks have run.
+ */
+const flushPromises = () =>
+  new Promise<void>((resolve) => setImmediate(resolve));
@@ -0,0 +1,57 @@
+/**
+ * A job known to the `SchedulerService`, as reported by `listJobs`.
+ */
+export interface ScheduledJob {
+  /**
+   * The name of the job.
+   */
+  name: string;
+
+  /**
+   * How the job is scheduled: every `interval` milliseconds from the time it was scheduled,
+   * aligned to wall-clock multiples of `interval`, once after `interval` milliseconds,
+   * or by a cron `expression` in `timeZone`.
+   */
+  type: 'interval' | 'aligned' | 'once' | 'cron';
+
+  /**
+   * The interval, or the delay of a one-time job, in milliseconds.
+   */
+  interval?: number;
+
+  /**
+   * The cron expression of a cron job.
+   */
+  expression?: string;
+
+  /**
+   * The time zone the cron expression of a cron job is evaluated in.
+   */
+  timeZone?: string;
+
+  /**
+   * The time the job runs next, in milliseconds since the Unix epoch,
+   * or `null` while the job is paused.
+   */
+  nextRunAt: number | null;
+
+  /**
+   * The time the job last ran for, in milliseconds since the Unix epoch, or `null` if it never ran.
+   */
+  lastRunAt: number | null;
+
+  /**
+   * Whether the job is paused.
+   */
+  paused: boolean;
+
+  /**
+   * Whether a run of the job is in progress.
+   */
+  running: boolean;
+
+  /**
+   * The number of runs skipped because the previous run was still in progress.
+   */
+  skippedRuns: number;
+}
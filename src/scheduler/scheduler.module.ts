@@ -1,9 +1,10 @@
 import { Global, Module } from '@nestjs/common';
+import { Clock, SystemClock } from './clock';
 import { SchedulerService } from './scheduler.service';
 
 @Global()
 @Module({
-  providers: [SchedulerService],
-  exports: [SchedulerService],
+  providers: [{ provide: Clock, useClass: SystemClock }, SchedulerService],
+  exports: [Clock, SchedulerService],
 })
 export class SchedulerModule {}
@@ -0,0 +1,168 @@
+import { Logger } from '@nestjs/common';
+import { FakeClock } from './fake-clock';
+import { SchedulerService } from './scheduler.service';
+
+describe('SchedulerService', () => {
+  const MINUTE = 60 * 1000;
+  const start = Date.parse('2025-01-01T10:02:00Z');
+
+  let clock: FakeClock;
+  let scheduler: SchedulerService;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    clock = new FakeClock(start);
+    scheduler = new SchedulerService(clock);
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  it('runs recurring jobs every interval from the time they were scheduled', async () => {
+    const task = jest.fn();
+
+    scheduler.scheduleJob('job', 5 * MINUTE, task);
+    await clock.advance(15 * MINUTE);
+
+    expect(task.mock.calls.map(([time]) => time.getTime())).toEqual([
+      start + 5 * MINUTE,
+      start + 10 * MINUTE,
+      start + 15 * MINUTE,
+    ]);
+  });
+
+  it('runs aligned jobs on wall-clock boundaries', async () => {
+    const task = jest.fn();
+
+    scheduler.scheduleAlignedJob('job', 5 * MINUTE, task);
+    await clock.advance(10 * MINUTE);
+
+    expect(task.mock.calls.map(([time]) => time.toISOString())).toEqual([
+      '2025-01-01T10:05:00.000Z',
+      '2025-01-01T10:10:00.000Z',
+    ]);
+  });
+
+  it('runs cron jobs in their time zone', async () => {
+    const task = jest.fn();
+
+    scheduler.scheduleCronJob('job', '0 14 * * *', task, 'Asia/Tehran');
+
+    expect(scheduler.getNextRun('job')?.toISOString()).toBe(
+      '2025-01-01T10:30:00.000Z',
+    );
+
+    await clock.advance(24 * 60 * MINUTE);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.getNextRun('job')?.toISOString()).toBe(
+      '2025-01-02T10:30:00.000Z',
+    );
+  });
+
+  it('runs one-time jobs once and then forgets them', async () => {
+    const task = jest.fn();
+
+    scheduler.scheduleOnce('job', MINUTE, task);
+    await clock.advance(10 * MINUTE);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.listJobs()).toEqual([]);
+  });
+
+  it('lists jobs with their next run', () => {
+    scheduler.scheduleAlignedJob('aligned', 5 * MINUTE, jest.fn());
+    scheduler.scheduleCronJob('cron', '0 0 * * *', jest.fn());
+
+    expect(scheduler.listJobs()).toEqual([
+      expect.objectContaining({
+        name: 'aligned',
+        type: 'aligned',
+        interval: 5 * MINUTE,
+        nextRunAt: Date.parse('2025-01-01T10:05:00Z'),
+        paused: false,
+      }),
+      expect.objectContaining({
+        name: 'cron',
+        type: 'cron',
+        expression: '0 0 * * *',
+        timeZone: 'UTC',
+        nextRunAt: Date.parse('2025-01-02T00:00:00Z'),
+      }),
+    ]);
+  });
+
+  it('replaces a job scheduled under the same name', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+
+    scheduler.scheduleJob('job', MINUTE, first);
+    scheduler.scheduleJob('job', MINUTE, second);
+    await clock.advance(MINUTE);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(clock.pendingTimers).toBe(1);
+  });
+
+  it('does not run paused jobs until they are resumed', async () => {
+    const task = jest.fn();
+
+    scheduler.scheduleJob('job', MINUTE, task);
+    expect(scheduler.pauseJob('job')).toBe(true);
+    await clock.advance(5 * MINUTE);
+
+    expect(task).not.toHaveBeenCalled();
+    expect(scheduler.getNextRun('job')).toBeUndefined();
+
+    expect(scheduler.resumeJob('job')).toBe(true);
+    await clock.advance(MINUTE);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.pauseJob('unknown')).toBe(false);
+  });
+
+  it('skips runs while the previous run is still in progress', async () => {
+    let finish: () => void;
+    const task = jest.fn(
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    );
+
+    scheduler.scheduleJob('job', MINUTE, task);
+    await clock.advance(3 * MINUTE);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.listJobs()[0]).toMatchObject({
+      running: true,
+      skippedRuns: 2,
+    });
+
+    finish();
+    await clock.advance(MINUTE);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps running a job after its task fails', async () => {
+    const task = jest.fn().mockRejectedValueOnce(new Error('boom'));
+
+    scheduler.scheduleJob('job', MINUTE, task);
+    await clock.advance(2 * MINUTE);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('cancels every job when the module is destroyed', () => {
+    scheduler.scheduleJob('a', MINUTE, jest.fn());
+    scheduler.scheduleCronJob('b', '* * * * *', jest.fn());
+
+    scheduler.onModuleDestroy();
+
+    expect(scheduler.listJobs()).toEqual([]);
+    expect(clock.pendingTimers).toBe(0);
+  });
+});
@@ -1,22 +1,88 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Clock, TimerHandle } from './clock';
+import { CronExpression } from './cron-expression';
+import { ScheduledJob } from './scheduled-job.interface';
+
+/**
+ * The longest delay `setTimeout` supports. Runs further away are reached in several steps.
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * A task run by a job. It receives the time the run is scheduled for.
+ * When it returns a promise, the run lasts until the promise settles.
+ */
+export type JobTask = (time: Date) => void | Promise<unknown>;
+
+/**
+ * A scheduled job and its timer.
+ */
+interface Job {
+  /**
+   * The description of the job, as reported by `listJobs`.
+   */
+  details: ScheduledJob;
+
+  /**
+   * Computes the next run after a time, or `undefined` when the job is done.
+   */
+  next: (after: number) => number | undefined;
+
+  /**
+   * The task to be executed.
+   */
+  task: JobTask;
+
+  /**
+   * The timer of the next run.
+   */
+  timer?: TimerHandle;
+}
 
 /**
  * SchedulerService is responsible for scheduling and managing jobs.
- * It allows scheduling recurring jobs, one-time jobs, and canceling jobs.
+ * It allows scheduling recurring jobs, wall-clock aligned jobs, cron jobs, one-time jobs,
+ * pausing, resuming and canceling jobs, and listing them.
+ *
+ * A run of a job is skipped while its previous run, e.g. an async task that takes longer
+ * than the interval, is still in progress. Time is read from the injected `Clock`,
+ * so that jobs can be tested without waiting.
  */
 @Injectable()
-export class SchedulerService implements OnModuleInit {
+export class SchedulerService implements OnModuleInit, OnModuleDestroy {
   /**
-   * A record that maps job identifiers to their corresponding NodeJS.Timeout objects.
-   * This is used to keep track of scheduled jobs and their timeouts.
+   * A logger instance for the SchedulerService class.
    */
-  private readonly jobs: Record<string, NodeJS.Timeout> = {};
+  private readonly logger = new Logger(SchedulerService.name);
+
+  /**
+   * A map that stores the scheduled jobs keyed by name, in the order they were scheduled.
+   */
+  private readonly jobs: Map<string, Job> = new Map();
+
+  /**
+   * @param clock The source of time and timers.
+   */
+  constructor(private readonly clock: Clock) {}
 
   /**
    * Lifecycle hook that is called when the module has been initialized.
    */
   onModuleInit = () => {};
 
+  /**
+   * Lifecycle hook that is called when the application shuts down.
+   * Cancels every job, so that no job runs while the application is stopping.
+   */
+  onModuleDestroy = () => {
+    Array.from(this.jobs.keys()).forEach(this.cancelJob);
+  };
+
   /**
    * Schedules a recurring job.
    *
@@ -24,11 +90,74 @@ export class SchedulerService implements OnModuleInit {
    * @param interval The interval in milliseconds at which the job should run.
    * @param task The task to be executed.
    */
-  readonly scheduleJob = (name: string, interval: number, task: () => void) => {
-    if (this.jobs[name]) {
-      clearInterval(this.jobs[name]);
-    }
-    this.jobs[name] = setInterval(task, interval);
+  readonly scheduleJob = (name: string, interval: number, task: JobTask) => {
+    this.addJob(
+      { name, type: 'interval', interval },
+      (after) => after + interval,
+      task,
+    );
+  };
+
+  /**
+   * Schedules a recurring job aligned to wall-clock boundaries.
+   *
+   * Unlike `scheduleJob`, the job does not run relative to the time it was scheduled,
+   * but whenever the current time is a multiple of the interval since the Unix epoch
+   * (e.g. at :00 and :30 for a 30-minute interval). Every run is scheduled anew,
+   * so the job does not drift from the wall clock.
+   *
+   * @param name The name of the job.
+   * @param interval The interval in milliseconds at which the job should run.
+   * @param task The task to be executed. It receives the boundary the run is scheduled for.
+   */
+  readonly scheduleAlignedJob = (
+    name: string,
+    interval: number,
+    task: JobTask,
+  ) => {
+    this.addJob(
+      { name, type: 'aligned', interval },
+      (after) => (Math.floor(after / interval) + 1) * interval,
+      task,
+    );
+  };
+
+  /**
+   * Schedules a recurring job by a cron expression, evaluated in a time zone.
+   *
+   * @param name The name of the job.
+   * @param expression The five-field cron expression, e.g. `0 8 * * *` for every day at 8:00.
+   * @param task The task to be executed. It receives the time the run is scheduled for.
+   * @param timeZone The IANA time zone of the expression, e.g. `Asia/Tehran`. Defaults to UTC.
+   *
+   * @throws {Error} Throws an error if the expression or the time zone is invalid.
+   */
+  readonly scheduleCronJob = (
+    name: string,
+    expression: string,
+    task: JobTask,
+    timeZone = 'UTC',
+  ) => {
+    const cron = new CronExpression(expression, timeZone);
+
+    this.addJob({ name, type: 'cron', expression, timeZone }, cron.next, task);
+  };
+
+  /**
+   * Schedules a one-time job.
+   *
+   * @param name The name of the job.
+   * @param delay The delay in milliseconds after which the job should run.
+   * @param task The task to be executed.
+   */
+  readonly scheduleOnce = (name: string, delay: number, task: JobTask) => {
+    const runAt = this.clock.now() + delay;
+
+    this.addJob(
+      { name, type: 'once', interval: delay },
+      (after) => (after < runAt ? runAt : undefined),
+      task,
+    );
   };
 
   /**
@@ -37,26 +166,181 @@ export class SchedulerService implements OnModuleInit {
    * @param name The name of the job to cancel.
    */
   readonly cancelJob = (name: string) => {
-    if (this.jobs[name]) {
-      clearInterval(this.jobs[name]);
-      delete this.jobs[name];
+    const job = this.jobs.get(name);
+
+    if (job) {
+      this.clock.clearTimeout(job.timer);
+      this.jobs.delete(name);
     }
   };
 
   /**
-   * Schedules a one-time job.
+   * Pauses a job: it does not run until it is resumed. A run in progress is not interrupted.
+   *
+   * @param name The name of the job to pause.
+   *
+   * @returns `true` if the job exists.
+   */
+  readonly pauseJob = (name: string): boolean => {
+    const job = this.jobs.get(name);
+
+    if (!job) {
+      return false;
+    }
+
+    this.clock.clearTimeout(job.timer);
+    job.details.paused = true;
+    job.details.nextRunAt = null;
+
+    return true;
+  };
+
+  /**
+   * Resumes a paused job. Runs missed while it was paused are not made up for.
+   *
+   * @param name The name of the job to resume.
+   *
+   * @returns `true` if the job exists.
+   */
+  readonly resumeJob = (name: string): boolean => {
+    const job = this.jobs.get(name);
+
+    if (!job) {
+      return false;
+    }
+
+    if (job.details.paused) {
+      job.details.paused = false;
+      this.arm(job, this.clock.now());
+    }
+
+    return true;
+  };
+
+  /**
+   * Returns the time a job runs next.
    *
    * @param name The name of the job.
-   * @param delay The delay in milliseconds after which the job should run.
+   *
+   * @returns The time of the next run, or `undefined` if the job does not exist or is paused.
+   */
+  readonly getNextRun = (name: string): Date | undefined => {
+    const nextRunAt = this.jobs.get(name)?.details.nextRunAt;
+
+    return nextRunAt === null || nextRunAt === undefined
+      ? undefined
+      : new Date(nextRunAt);
+  };
+
+  /**
+   * Lists the scheduled jobs.
+   *
+   * @returns The scheduled jobs, in the order they were scheduled.
+   */
+  readonly listJobs = (): ScheduledJob[] =>
+    Array.from(this.jobs.values()).map(({ details }) => ({ ...details }));
+
+  /**
+   * Registers a job, replacing any job of the same name, and schedules its first run.
+   *
+   * @param details The description of the job.
+   * @param next Computes the next run after a time, or `undefined` when the job is done.
    * @param task The task to be executed.
    */
-  readonly scheduleOnce = (name: string, delay: number, task: () => void) => {
-    if (this.jobs[name]) {
-      clearTimeout(this.jobs[name]);
+  private readonly addJob = (
+    details: Pick<
+      ScheduledJob,
+      'name' | 'type' | 'interval' | 'expression' | 'timeZone'
+    >,
+    next: Job['next'],
+    task: JobTask,
+  ) => {
+    this.cancelJob(details.name);
+
+    const job: Job = {
+      details: {
+        ...details,
+        nextRunAt: null,
+        lastRunAt: null,
+        paused: false,
+        running: false,
+        skippedRuns: 0,
+      },
+      next,
+      task,
+    };
+
+    this.jobs.set(details.name, job);
+    this.arm(job, this.clock.now());
+  };
+
+  /**
+   * Schedules the next run of a job after a time, or removes the job when it is done.
+   *
+   * @param job The job.
+   * @param after The time to schedule the next run after.
+   */
+  private readonly arm = (job: Job, after: number) => {
+    const nextRunAt = job.next(after);
+
+    if (nextRunAt === undefined) {
+      this.jobs.delete(job.details.name);
+      return;
     }
-    this.jobs[name] = setTimeout(() => {
-      task();
-      delete this.jobs[name];
-    }, delay);
+
+    job.details.nextRunAt = nextRunAt;
+    this.setTimer(job);
+  };
+
+  /**
+   * Sets the timer of the next run of a job. Timers that fire early, or that could
+   * not reach the run at once, are set again.
+   *
+   * @param job The job.
+   */
+  private readonly setTimer = (job: Job) => {
+    const delay = job.details.nextRunAt - this.clock.now();
+
+    job.timer = this.clock.setTimeout(
+      () => {
+        if (this.clock.now() < job.details.nextRunAt) {
+          this.setTimer(job);
+        } else {
+          this.run(job);
+        }
+      },
+      Math.min(delay, MAX_TIMEOUT),
+    );
+  };
+
+  /**
+   * Runs a job, after scheduling its next run. The run is skipped if the previous run
+   * is still in progress. Errors of the task are logged.
+   *
+   * @param job The job.
+   */
+  private readonly run = (job: Job) => {
+    const { details } = job;
+    const time = details.nextRunAt;
+
+    this.arm(job, Math.max(this.clock.now(), time));
+
+    if (details.running) {
+      details.skippedRuns++;
+      this.logger.warn(
+        `Skipped a run of ${details.name}, as the previous run is still in progress`,
+      );
+      return;
+    }
+
+    details.running = true;
+    details.lastRunAt = time;
+
+    Promise.resolve()
+      .then(() => job.task(new Date(time)))
+      .catch((error) => this.logger.error(`Job ${details.name} failed`, error))
+      .finally(() => {
+        details.running = false;
+      });
   };
 }
@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+
+/**
+ * Only lets requests through that carry the API key configured in `STATUS_API_KEY`
+ * in their `X-API-Key` header. When no key is configured, every request is rejected.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  /**
+   * A logger instance for the ApiKeyGuard class.
+   */
+  private readonly logger = new Logger(ApiKeyGuard.name);
+
+  /**
+   * The configured API key.
+   */
+  private readonly apiKey = process.env.STATUS_API_KEY ?? '';
+
+  constructor() {
+    if (!this.apiKey) {
+      this.logger.warn('STATUS_API_KEY is not set, the status API is disabled');
+    }
+  }
+
+  canActivate = (context: ExecutionContext): boolean => {
+    const request = context.switchToHttp().getRequest<Request>();
+    const apiKey = Buffer.from(request.header('x-api-key') ?? '');
+    const expected = Buffer.from(this.apiKey);
+
+    if (
+      expected.length === 0 ||
+      apiKey.length !== expected.length ||
+      !timingSafeEqual(apiKey, expected)
+    ) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    return true;
+  };
+}
@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyGuard } from './api-key.guard';
+import { StatusService } from './status.service';
+
+/**
+ * Serves operational data for monitoring and dashboards under `/status`.
+ * Every endpoint requires the API key configured in `STATUS_API_KEY`.
+ */
+@Controller('status')
+@UseGuards(ApiKeyGuard)
+export class StatusController {
+  /**
+   * @param statusService The service that gathers the operational data.
+   */
+  constructor(private readonly statusService: StatusService) {}
+
+  /**
+   * Liveness: answers as long as the process is running.
+   */
+  @Get('health')
+  health() {
+    return { status: 'ok', uptime: process.uptime() };
+  }
+
+  /**
+   * Readiness: answers with 503 until the bot has been launched.
+   */
+  @Get('ready')
+  ready() {
+    const readiness = this.statusService.getReadiness();
+
+    if (!readiness.ready) {
+      throw new ServiceUnavailableException(readiness);
+    }
+
+    return readiness;
+  }
+
+  /**
+   * The latest fetched price of each market.
+   */
+  @Get('prices')
+  prices() {
+    return this.statusService.listPrices();
+  }
+
+  /**
+   * The number of subscribers of each currency.
+   */
+  @Get('subscribers')
+  subscribers() {
+    return this.statusService.countSubscribers();
+  }
+
+  /**
+   * The scheduled jobs.
+   */
+  @Get('jobs')
+  jobs() {
+    return this.statusService.listJobs();
+  }
+}
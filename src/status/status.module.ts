@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { BotModule } from 'src/bot/bot.module';
+import { PriceModule } from 'src/price/price.module';
+import { StatusController } from './status.controller';
+import { StatusService } from './status.service';
+
+@Module({
+  imports: [BotModule, PriceModule],
+  controllers: [StatusController],
+  providers: [StatusService],
+})
+export class StatusModule {}
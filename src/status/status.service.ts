@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { BotService } from 'src/bot/bot.service';
+import { PriceService } from 'src/price/price.service';
+import { ScheduledJob } from 'src/scheduler/scheduled-job.interface';
+import { SchedulerService } from 'src/scheduler/scheduler.service';
+import { ChatStorage } from 'src/storage/chat-storage';
+
+/**
+ * The `StatusService` class gathers the operational data reported by the status API.
+ */
+@Injectable()
+export class StatusService {
+  /**
+   * @param botService The service running the Telegram bot.
+   * @param priceService The service that fetches market prices.
+   * @param schedulerService The service responsible for scheduling jobs.
+   * @param chats The storage that persists chat information and subscriptions.
+   */
+  constructor(
+    private readonly botService: BotService,
+    private readonly priceService: PriceService,
+    private readonly schedulerService: SchedulerService,
+    private readonly chats: ChatStorage,
+  ) {}
+
+  /**
+   * Reports whether the bot is ready to serve: it must have been launched.
+   * The time of the last successful price fetch is reported alongside.
+   *
+   * @returns The readiness of the bot.
+   */
+  readonly getReadiness = () => {
+    const fetchedAt = this.priceService
+      .listLatestQuotes()
+      .map(({ fetchedAt }) => fetchedAt);
+    const lastPriceFetchAt =
+      fetchedAt.length > 0 ? new Date(Math.max(...fetchedAt)) : null;
+
+    return {
+      ready: this.botService.isLaunched(),
+      botLaunched: this.botService.isLaunched(),
+      lastPriceFetchAt,
+    };
+  };
+
+  /**
+   * Lists the latest fetched price of each market.
+   *
+   * @returns The latest prices, sorted by market symbol.
+   */
+  readonly listPrices = () =>
+    this.priceService
+      .listLatestQuotes()
+      .map(({ quote, fetchedAt }) => ({
+        ...quote,
+        fetchedAt: new Date(fetchedAt),
+      }))
+      .sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+  /**
+   * Counts the chats, the subscribed chats, and the subscribers of each currency.
+   *
+   * @returns The subscriber counts.
+   */
+  readonly countSubscribers = async () => {
+    const chats = await this.chats.entries();
+    const currencies: Record<string, number> = {};
+
+    for (const [, { subscribedCurrencies }] of chats) {
+      for (const currency of subscribedCurrencies) {
+        currencies[currency] = (currencies[currency] ?? 0) + 1;
+      }
+    }
+
+    return {
+      chats: chats.length,
+      subscribedChats: chats.filter(
+        ([, { subscribedCurrencies }]) => subscribedCurrencies.size > 0,
+      ).length,
+      currencies,
+    };
+  };
+
+  /**
+   * Lists the scheduled jobs.
+   *
+   * @returns The jobs of the `SchedulerService`.
+   */
+  readonly listJobs = (): (Omit<ScheduledJob, 'nextRunAt' | 'lastRunAt'> & {
+    nextRunAt: Date | null;
+    lastRunAt: Date | null;
+  })[] =>
+    this.schedulerService.listJobs().map((job) => ({
+      ...job,
+      nextRunAt: job.nextRunAt === null ? null : new Date(job.nextRunAt),
+      lastRunAt: job.lastRunAt === null ? null : new Date(job.lastRunAt),
+    }));
+}
@@ -0,0 +1,40 @@
+import { RegisteredChat } from './registered-chat.interface';
+
+/**
+ * ChatRegistry is the persistence layer behind the channels and groups the bot serves.
+ * Private chats are always served and never registered.
+ * It is used as the injection token for the configured storage implementation.
+ */
+export abstract class ChatRegistry {
+  /**
+   * Checks whether a chat is registered.
+   *
+   * @param chatId The ID of the chat.
+   *
+   * @returns `true` if the chat is registered.
+   */
+  abstract has(chatId: number): Promise<boolean>;
+
+  /**
+   * Registers a chat, replacing any earlier registration of the same chat.
+   *
+   * @param chat The chat to register.
+   */
+  abstract add(chat: RegisteredChat): Promise<void>;
+
+  /**
+   * Removes a chat from the registry.
+   *
+   * @param chatId The ID of the chat.
+   *
+   * @returns The removed chat, or `undefined` if the chat was not registered.
+   */
+  abstract remove(chatId: number): Promise<RegisteredChat | undefined>;
+
+  /**
+   * Lists all registered chats, in the order they were registered.
+   *
+   * @returns The registered chats.
+   */
+  abstract list(): Promise<RegisteredChat[]>;
+}
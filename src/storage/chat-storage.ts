@@ -0,0 +1,41 @@
+import { Chat } from './chat.interface';
+
+/**
+ * ChatStorage is the persistence layer behind the chat and subscription state.
+ * It is used as the injection token for the configured storage implementation.
+ *
+ * All methods are asynchronous so that implementations may be backed by a file,
+ * a database or any other external store.
+ */
+export abstract class ChatStorage {
+  /**
+   * Retrieves the stored state of a chat.
+   *
+   * @param chatId The ID of the chat.
+   *
+   * @returns The chat state, or `undefined` if the chat is unknown.
+   */
+  abstract get(chatId: number): Promise<Chat | undefined>;
+
+  /**
+   * Creates or replaces the stored state of a chat.
+   *
+   * @param chatId The ID of the chat.
+   * @param chat The new chat state.
+   */
+  abstract set(chatId: number, chat: Chat): Promise<void>;
+
+  /**
+   * Removes a chat from the storage.
+   *
+   * @param chatId The ID of the chat.
+   */
+  abstract delete(chatId: number): Promise<void>;
+
+  /**
+   * Lists all stored chats.
+   *
+   * @returns An array of `[chatId, chat]` tuples.
+   */
+  abstract entries(): Promise<[number, Chat][]>;
+}
@@ -0,0 +1,172 @@
+import { Calendar, Language } from 'src/i18n/languages';
+import { PriceSide } from 'src/price/price-provider.interface';
+
+/**
+ * The layout of the price updates of a chat: `detailed` shows the changes, high and low
+ * of each currency, `compact` puts each currency on a single line, and `markdown` and
+ * `html` are detailed updates with bold prices, sent in the matching parse mode.
+ */
+export type DigestTemplate = 'detailed' | 'compact' | 'markdown' | 'html';
+
+/**
+ * An amount of an asset held in the portfolio of a chat.
+ */
+export interface Holding {
+  /**
+   * The asset held (e.g. 'BTC').
+   */
+  asset: string;
+
+  /**
+   * The amount held, in units of the asset.
+   */
+  amount: number;
+}
+
+/**
+ * The sensitivity of the sudden price move notifications of a chat.
+ */
+export interface VolatilityAlert {
+  /**
+   * The smallest price move, in percent, that is notified (e.g. `2` for ±2%).
+   */
+  threshold: number;
+
+  /**
+   * The time window, in minutes, the move must happen within.
+   */
+  window: number;
+}
+
+/**
+ * A one-off price alert, triggered once the price of a market crosses a threshold.
+ */
+export interface Alert {
+  /**
+   * The unique identifier of the alert within its chat.
+   */
+  id: string;
+
+  /**
+   * The currency pair the alert watches (e.g. 'BTCIRT').
+   */
+  currency: string;
+
+  /**
+   * Whether the alert triggers when the price rises above or falls below the threshold.
+   */
+  direction: 'above' | 'below';
+
+  /**
+   * The threshold price, expressed in the quote currency.
+   */
+  price: number;
+}
+
+/**
+ * A daily window during which no scheduled price updates are sent to a chat,
+ * in the time zone of the chat. The window may wrap around midnight.
+ */
+export interface QuietHours {
+  /**
+   * The start of the window, in minutes since midnight.
+   */
+  start: number;
+
+  /**
+   * The end of the window, in minutes since midnight.
+   */
+  end: number;
+}
+
+/**
+ * The state kept for every chat the bot talks to.
+ */
+export interface Chat {
+  /**
+   * The set of currency pairs (e.g. 'USDTIRT') the chat is subscribed to.
+   */
+  subscribedCurrencies: Set<string>;
+
+  /**
+   * The pending price alerts of the chat.
+   */
+  alerts: Alert[];
+
+  /**
+   * The number of minutes between two price updates sent to the chat.
+   * Updates are aligned to wall-clock boundaries (e.g. :00 and :30 for 30 minutes).
+   */
+  interval: number;
+
+  /**
+   * Whether a small 24-hour chart of each subscribed currency is attached to price updates.
+   */
+  digestChart: boolean;
+
+  /**
+   * The side of the order book the prices in price updates are taken from.
+   */
+  priceSide: PriceSide;
+
+  /**
+   * The layout of the price updates of the chat.
+   */
+  digestTemplate: DigestTemplate;
+
+  /**
+   * Whether price updates edit a single pinned message instead of posting new ones.
+   */
+  liveTicker: boolean;
+
+  /**
+   * The ID of the pinned message edited by price updates, or `null` if none was sent yet.
+   */
+  liveMessageId: number | null;
+
+  /**
+   * The language of the messages sent to the chat.
+   */
+  language: Language;
+
+  /**
+   * The calendar of the dates shown to the chat.
+   */
+  calendar: Calendar;
+
+  /**
+   * The IANA time zone of the chat (e.g. 'Asia/Tehran'), used for its quiet hours.
+   */
+  timeZone: string;
+
+  /**
+   * The quiet hours of the chat, or `null` if updates are sent around the clock.
+   */
+  quietHours: QuietHours | null;
+
+  /**
+   * Whether a summary of the overnight prices is sent when the quiet hours end.
+   */
+  morningSummary: boolean;
+
+  /**
+   * The assets the chat holds, in the order they were added.
+   */
+  portfolio: Holding[];
+
+  /**
+   * Whether the value of the portfolio is included in price updates.
+   */
+  portfolioDigest: boolean;
+
+  /**
+   * The sensitivity of sudden price move notifications, or `null` if they are turned off.
+   */
+  volatilityAlert: VolatilityAlert | null;
+
+  /**
+   * The time each currency pair last had a sudden move notified, in milliseconds
+   * since the Unix epoch, keyed by currency pair.
+   */
+  volatilityNotifiedAt: Record<string, number>;
+}
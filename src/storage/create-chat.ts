@@ -0,0 +1,28 @@
+import { DEFAULT_LANGUAGE, LANGUAGES } from 'src/i18n/languages';
+import { Chat } from './chat.interface';
+
+/**
+ * Creates the state of a chat the bot has not seen before.
+ * Also provides the defaults for fields missing from chats stored by older versions.
+ *
+ * @returns {Chat} A chat with default settings and no subscriptions.
+ */
+export const createChat = (): Chat => ({
+  subscribedCurrencies: new Set(),
+  alerts: [],
+  interval: 30,
+  digestChart: false,
+  priceSide: 'ask',
+  digestTemplate: 'detailed',
+  liveTicker: false,
+  liveMessageId: null,
+  language: DEFAULT_LANGUAGE,
+  calendar: LANGUAGES.get(DEFAULT_LANGUAGE).calendar,
+  timeZone: 'UTC',
+  quietHours: null,
+  morningSummary: false,
+  portfolio: [],
+  portfolioDigest: false,
+  volatilityAlert: null,
+  volatilityNotifiedAt: {},
+});
@@ -0,0 +1,140 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { MemoryChatRegistry } from './memory-chat-registry';
+import { RegisteredChat } from './registered-chat.interface';
+
+/**
+ * A `ChatRegistry` implementation that persists the registered chats to a JSON file,
+ * so that channels added by an admin survive a restart or redeploy of the bot.
+ *
+ * Like `FileChatStorage`, the file is read once, lazily, and every change is written
+ * to a temporary file which is then renamed over the original.
+ */
+export class FileChatRegistry extends MemoryChatRegistry {
+  /**
+   * A logger instance for the FileChatRegistry class.
+   */
+  private readonly logger = new Logger(FileChatRegistry.name);
+
+  /**
+   * Resolves once the file has been loaded into `chats`.
+   */
+  private loading: Promise<void>;
+
+  /**
+   * The pending write, used to serialize writes to the file.
+   */
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path The path of the JSON file the registered chats are stored in.
+   */
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  async has(chatId: number): Promise<boolean> {
+    await this.load();
+    return super.has(chatId);
+  }
+
+  async add(chat: RegisteredChat): Promise<void> {
+    await this.load();
+    await super.add(chat);
+    await this.save();
+  }
+
+  async remove(chatId: number): Promise<RegisteredChat | undefined> {
+    await this.load();
+    const chat = await super.remove(chatId);
+
+    if (chat) {
+      await this.save();
+    }
+
+    return chat;
+  }
+
+  async list(): Promise<RegisteredChat[]> {
+    await this.load();
+    return super.list();
+  }
+
+  /**
+   * Loads the registered chats from the file, once.
+   * A missing file is treated as an empty registry. A file that cannot be parsed is
+   * moved aside, like `FileChatStorage` does, and the registry starts empty.
+   */
+  private readonly load = (): Promise<void> => {
+    this.loading ??= readFile(this.path, 'utf8').then(
+      async (content) => {
+        let chats: RegisteredChat[];
+
+        try {
+          chats = JSON.parse(content);
+        } catch (error) {
+          await this.moveAside(error);
+          return;
+        }
+
+        if (!Array.isArray(chats)) {
+          await this.moveAside(new Error('expected an array of chats'));
+          return;
+        }
+
+        for (const chat of chats) {
+          this.chats.set(chat.id, chat);
+        }
+      },
+      (error) => {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      },
+    );
+
+    return this.loading;
+  };
+
+  /**
+   * Renames the unreadable file next to itself, with a `.corrupt-<timestamp>` suffix.
+   *
+   * @param error Why the file could not be read.
+   */
+  private readonly moveAside = async (error: Error): Promise<void> => {
+    const corruptPath = `${this.path}.corrupt-${Date.now()}`;
+
+    await rename(this.path, corruptPath);
+    this.logger.error(
+      `Could not read registered chats from ${this.path} (${error.message}); moved it to ${corruptPath} and starting empty`,
+    );
+  };
+
+  /**
+   * Writes the current state of `chats` to the file.
+   * Writes are queued so that they never interleave.
+   */
+  private readonly save = (): Promise<void> => {
+    const content = JSON.stringify(Array.from(this.chats.values()), null, 2);
+
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.path}.tmp`;
+
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(tmpPath, content, 'utf8');
+        await rename(tmpPath, this.path);
+      })
+      .catch((error) => {
+        this.logger.error(
+          `Failed to write registered chats to ${this.path}`,
+          error,
+        );
+        throw error;
+      });
+
+    return this.writing;
+  };
+}
@@ -0,0 +1,96 @@
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { createChat } from './create-chat';
+import { FileChatStorage } from './file-chat-storage';
+
+describe('FileChatStorage', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'file-chat-storage-'));
+    path = join(dir, 'data', 'chats.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads back the chats written before a restart', async () => {
+    const chat = {
+      ...createChat(),
+      subscribedCurrencies: new Set(['USDTIRT', 'BTCIRT']),
+      interval: 60,
+      language: 'fa' as const,
+      portfolio: [{ asset: 'BTC', amount: 0.5 }],
+    };
+
+    await new FileChatStorage(path).set(42, chat);
+
+    const restarted = new FileChatStorage(path);
+
+    expect(await restarted.get(42)).toEqual(chat);
+    expect((await restarted.get(42)).subscribedCurrencies).toBeInstanceOf(Set);
+    expect(await restarted.entries()).toEqual([[42, chat]]);
+  });
+
+  it('stores the subscribed currencies as a JSON array', async () => {
+    await new FileChatStorage(path).set(42, {
+      ...createChat(),
+      subscribedCurrencies: new Set(['USDTIRT']),
+    });
+
+    const data = JSON.parse(await readFile(path, 'utf8'));
+
+    expect(data['42'].subscribedCurrencies).toEqual(['USDTIRT']);
+  });
+
+  it('fills in the defaults of fields missing from chats written by older versions', async () => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(
+      path,
+      JSON.stringify({ '-100123': { subscribedCurrencies: ['USDTIRT'] } }),
+    );
+
+    const chat = await new FileChatStorage(path).get(-100123);
+
+    expect(chat).toEqual({
+      ...createChat(),
+      subscribedCurrencies: new Set(['USDTIRT']),
+    });
+  });
+
+  it('forgets deleted chats across restarts', async () => {
+    const storage = new FileChatStorage(path);
+
+    await storage.set(1, createChat());
+    await storage.set(2, createChat());
+    await storage.delete(1);
+
+    const restarted = new FileChatStorage(path);
+
+    expect(await restarted.get(1)).toBeUndefined();
+    expect(await restarted.get(2)).toEqual(createChat());
+  });
+
+  it('moves an unreadable file aside and starts empty', async () => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, '{"42": {"subscribedCurr');
+
+    const storage = new FileChatStorage(path);
+
+    expect(await storage.entries()).toEqual([]);
+    expect(await readdir(dirname(path))).toEqual([
+      expect.stringMatching(/^chats\.json\.corrupt-\d+$/),
+    ]);
+
+    await storage.set(42, createChat());
+
+    expect(await new FileChatStorage(path).get(42)).toEqual(createChat());
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    expect(await new FileChatStorage(path).entries()).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { Chat } from './chat.interface';
+import { ChatStorage } from './chat-storage';
+import { createChat } from './create-chat';
+
+/**
+ * The JSON representation of a chat as written to disk.
+ */
+type SerializedChat = Omit<Chat, 'subscribedCurrencies'> & {
+  subscribedCurrencies: string[];
+};
+
+/**
+ * A `ChatStorage` implementation that persists every chat to a JSON file,
+ * so that subscriptions survive a restart or redeploy of the bot.
+ *
+ * The file is read once, lazily, on first access. Every change is written back
+ * to a temporary file which is then renamed over the original, so a crash in
+ * the middle of a write never leaves a truncated file behind.
+ */
+export class FileChatStorage extends ChatStorage {
+  /**
+   * A logger instance for the FileChatStorage class.
+   */
+  private readonly logger = new Logger(FileChatStorage.name);
+
+  /**
+   * The in-memory copy of the stored chats.
+   */
+  private readonly chats: Map<number, Chat> = new Map();
+
+  /**
+   * Resolves once the file has been loaded into `chats`.
+   */
+  private loading: Promise<void>;
+
+  /**
+   * The pending write, used to serialize writes to the file.
+   */
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path The path of the JSON file the chats are stored in.
+   */
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  async get(chatId: number): Promise<Chat | undefined> {
+    await this.load();
+    return this.chats.get(chatId);
+  }
+
+  async set(chatId: number, chat: Chat): Promise<void> {
+    await this.load();
+    this.chats.set(chatId, chat);
+    await this.save();
+  }
+
+  async delete(chatId: number): Promise<void> {
+    await this.load();
+    if (this.chats.delete(chatId)) {
+      await this.save();
+    }
+  }
+
+  async entries(): Promise<[number, Chat][]> {
+    await this.load();
+    return Array.from(this.chats);
+  }
+
+  /**
+   * Loads the stored chats from the file, once.
+   * A missing file is treated as an empty storage. A file that cannot be parsed is
+   * moved aside, so it can be inspected, and the storage starts empty instead of
+   * failing every later call.
+   */
+  private readonly load = (): Promise<void> => {
+    this.loading ??= readFile(this.path, 'utf8').then(
+      async (content) => {
+        let data: Record<string, SerializedChat>;
+
+        try {
+          data = JSON.parse(content);
+        } catch (error) {
+          await this.moveAside(error);
+          return;
+        }
+
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+          await this.moveAside(new Error('expected an object of chats'));
+          return;
+        }
+
+        for (const [chatId, chat] of Object.entries(data)) {
+          this.chats.set(Number(chatId), this.deserialize(chat));
+        }
+      },
+      (error) => {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      },
+    );
+
+    return this.loading;
+  };
+
+  /**
+   * Renames the unreadable file next to itself, with a `.corrupt-<timestamp>` suffix.
+   *
+   * @param error Why the file could not be read.
+   */
+  private readonly moveAside = async (error: Error): Promise<void> => {
+    const corruptPath = `${this.path}.corrupt-${Date.now()}`;
+
+    await rename(this.path, corruptPath);
+    this.logger.error(
+      `Could not read chats from ${this.path} (${error.message}); moved it to ${corruptPath} and starting empty`,
+    );
+  };
+
+  /**
+   * Writes the current state of `chats` to the file.
+   * Writes are queued so that they never interleave.
+   */
+  private readonly save = (): Promise<void> => {
+    const content = JSON.stringify(
+      Object.fromEntries(
+        Array.from(this.chats).map(([chatId, chat]) => [
+          chatId,
+          this.serialize(chat),
+        ]),
+      ),
+      null,
+      2,
+    );
+
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.path}.tmp`;
+
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(tmpPath, content, 'utf8');
+        await rename(tmpPath, this.path);
+      })
+      .catch((error) => {
+        this.logger.error(`Failed to write chats to ${this.path}`, error);
+        throw error;
+      });
+
+    return this.writing;
+  };
+
+  /**
+   * Converts a chat to its JSON representation.
+   *
+   * @param chat The chat to convert.
+   *
+   * @returns The JSON-friendly chat.
+   */
+  private readonly serialize = (chat: Chat): SerializedChat => ({
+    ...chat,
+    subscribedCurrencies: Array.from(chat.subscribedCurrencies),
+  });
+
+  /**
+   * Restores a chat from its JSON representation.
+   * Fields missing from chats written by older versions get their default values.
+   *
+   * @param chat The JSON-friendly chat.
+   *
+   * @returns The restored chat.
+   */
+  private readonly deserialize = (chat: SerializedChat): Chat => ({
+    ...createChat(),
+    ...chat,
+    subscribedCurrencies: new Set(chat.subscribedCurrencies),
+  });
+}
@@ -0,0 +1,119 @@
+import { appendFile, mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { FilePriceHistoryStorage } from './file-price-history-storage';
+import { PriceSnapshot } from './price-snapshot.interface';
+
+describe('FilePriceHistoryStorage', () => {
+  const HOUR = 60 * 60 * 1000;
+  const DAY = 24 * HOUR;
+  const RETENTION = 2 * DAY;
+
+  let dir: string;
+  let path: string;
+
+  const snapshot = (
+    symbol: string,
+    time: number,
+    price = 600000,
+  ): PriceSnapshot => ({ symbol, time, price, source: 'Nobitex' });
+
+  /**
+   * Reads the snapshots in the file.
+   */
+  const readSnapshots = async (): Promise<PriceSnapshot[]> =>
+    (await readFile(path, 'utf8'))
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'file-price-history-storage-'));
+    path = join(dir, 'data', 'prices.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads back the snapshots written before a restart', async () => {
+    const storage = new FilePriceHistoryStorage(path, RETENTION);
+
+    await storage.add(snapshot('USDTIRT', HOUR));
+    await storage.add(snapshot('USDTIRT', 2 * HOUR, 610000));
+
+    const restarted = new FilePriceHistoryStorage(path, RETENTION);
+
+    expect(await restarted.list('USDTIRT', 0)).toEqual([
+      snapshot('USDTIRT', HOUR),
+      snapshot('USDTIRT', 2 * HOUR, 610000),
+    ]);
+  });
+
+  it('skips a line cut short by a crash in the middle of an append', async () => {
+    await mkdir(dirname(path), { recursive: true });
+    await appendFile(
+      path,
+      `${JSON.stringify(snapshot('USDTIRT', HOUR))}\n{"symbol":"USDT`,
+    );
+
+    const storage = new FilePriceHistoryStorage(path, RETENTION);
+
+    expect(await storage.list('USDTIRT', 0)).toEqual([
+      snapshot('USDTIRT', HOUR),
+    ]);
+
+    await storage.add(snapshot('USDTIRT', 2 * HOUR));
+
+    expect(
+      await new FilePriceHistoryStorage(path, RETENTION).list('USDTIRT', 0),
+    ).toEqual([snapshot('USDTIRT', HOUR), snapshot('USDTIRT', 2 * HOUR)]);
+  });
+
+  it('compacts the file once a day while snapshots are added', async () => {
+    const storage = new FilePriceHistoryStorage(path, RETENTION);
+
+    await storage.add(snapshot('BTCIRT', 0));
+    await storage.add(snapshot('USDTIRT', HOUR));
+    await storage.add(snapshot('USDTIRT', 2 * DAY));
+
+    expect(await readSnapshots()).toHaveLength(3);
+
+    await storage.add(snapshot('USDTIRT', 2 * DAY + 2 * HOUR));
+
+    expect(await readSnapshots()).toHaveLength(4);
+
+    await storage.add(snapshot('USDTIRT', 3 * DAY + HOUR));
+
+    expect(await readSnapshots()).toEqual([
+      snapshot('USDTIRT', 2 * DAY),
+      snapshot('USDTIRT', 2 * DAY + 2 * HOUR),
+      snapshot('USDTIRT', 3 * DAY + HOUR),
+    ]);
+    expect(await storage.list('BTCIRT', 0)).toEqual([]);
+  });
+
+  it('writes every snapshot once when they are added in parallel across a compaction', async () => {
+    const storage = new FilePriceHistoryStorage(path, RETENTION);
+
+    await Promise.all([
+      storage.add(snapshot('USDTIRT', HOUR)),
+      storage.add(snapshot('BTCIRT', HOUR)),
+    ]);
+    await Promise.all([
+      storage.add(snapshot('USDTIRT', DAY + HOUR)),
+      storage.add(snapshot('BTCIRT', DAY + HOUR)),
+      storage.add(snapshot('ETHIRT', DAY + HOUR)),
+    ]);
+
+    const restarted = new FilePriceHistoryStorage(path, RETENTION);
+
+    expect(await readSnapshots()).toHaveLength(5);
+    expect(await restarted.list('USDTIRT', 0)).toEqual([
+      snapshot('USDTIRT', HOUR),
+      snapshot('USDTIRT', DAY + HOUR),
+    ]);
+    expect(await restarted.list('BTCIRT', 0)).toHaveLength(2);
+    expect(await restarted.list('ETHIRT', 0)).toHaveLength(1);
+  });
+});
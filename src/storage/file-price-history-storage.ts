@@ -0,0 +1,185 @@
+import { Logger } from '@nestjs/common';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { PriceSide } from 'src/price/price-provider.interface';
+import { MemoryPriceHistoryStorage } from './memory-price-history-storage';
+import { PriceSnapshot } from './price-snapshot.interface';
+
+/**
+ * The time in milliseconds between two compactions of the file.
+ */
+const COMPACTION_INTERVAL = 24 * 60 * 60 * 1000;
+
+/**
+ * A `PriceHistoryStorage` implementation that persists snapshots to a JSON Lines file,
+ * one snapshot per line, so that price history survives a restart of the bot.
+ *
+ * The file is read once, lazily, on first access, and compacted at that point by
+ * dropping the snapshots older than the retention period. New snapshots are appended,
+ * and the file is compacted again once a day, so it does not grow without limit on a
+ * long-running process. Lines that cannot be parsed, e.g. a line cut short by a crash
+ * in the middle of an append, are skipped.
+ */
+export class FilePriceHistoryStorage extends MemoryPriceHistoryStorage {
+  /**
+   * A logger instance for the FilePriceHistoryStorage class.
+   */
+  private readonly logger = new Logger(FilePriceHistoryStorage.name);
+
+  /**
+   * Resolves once the file has been loaded into `snapshots`.
+   */
+  private loading: Promise<void>;
+
+  /**
+   * The pending write, used to serialize writes to the file.
+   */
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * The time of the newest snapshot when the file was last compacted.
+   */
+  private compactedAt = -Infinity;
+
+  /**
+   * @param path The path of the JSON Lines file the snapshots are stored in.
+   * @param retention The time in milliseconds snapshots are kept for.
+   */
+  constructor(
+    private readonly path: string,
+    retention: number,
+  ) {
+    super(retention);
+  }
+
+  async add(snapshot: PriceSnapshot): Promise<void> {
+    await this.load();
+    this.insert(snapshot);
+
+    // The interval is counted on the time of the snapshots, like the retention period.
+    if (snapshot.time - this.compactedAt >= COMPACTION_INTERVAL) {
+      await this.compact(snapshot.time);
+      return;
+    }
+
+    await this.write(() =>
+      appendFile(this.path, `${JSON.stringify(snapshot)}\n`, 'utf8'),
+    );
+  }
+
+  async list(
+    symbol: string,
+    since: number,
+    side?: PriceSide,
+  ): Promise<PriceSnapshot[]> {
+    await this.load();
+    return super.list(symbol, since, side);
+  }
+
+  async findLatest(
+    symbol: string,
+    time: number,
+    side?: PriceSide,
+  ): Promise<PriceSnapshot | undefined> {
+    await this.load();
+    return super.findLatest(symbol, time, side);
+  }
+
+  /**
+   * Loads the stored snapshots from the file, once, and rewrites the file
+   * without the snapshots older than the retention period.
+   * A missing file is treated as an empty history.
+   */
+  private readonly load = (): Promise<void> => {
+    this.loading ??= readFile(this.path, 'utf8')
+      .then(
+        (content) => {
+          content
+            .split('\n')
+            .filter(Boolean)
+            .forEach((line, index) => {
+              try {
+                this.insert(JSON.parse(line));
+              } catch {
+                this.logger.warn(
+                  `Skipping malformed line ${index + 1} of ${this.path}`,
+                );
+              }
+            });
+        },
+        (error) => {
+          if (error.code !== 'ENOENT') {
+            throw error;
+          }
+        },
+      )
+      .then(() =>
+        this.compact(
+          Math.max(
+            ...Array.from(this.snapshots.values()).map(
+              (snapshots) => snapshots[snapshots.length - 1].time,
+            ),
+          ),
+        ),
+      );
+
+    return this.loading;
+  };
+
+  /**
+   * Discards the snapshots older than the retention period, counted back from the
+   * newest snapshot, including those of markets no longer updated, and rewrites the
+   * file with the remaining ones, which also drops any malformed lines.
+   *
+   * @param time The time of the newest snapshot.
+   */
+  private readonly compact = (time: number): Promise<void> => {
+    this.compactedAt = time;
+
+    for (const [key, snapshots] of this.snapshots) {
+      const kept = snapshots.filter(
+        (snapshot) => snapshot.time >= time - this.retention,
+      );
+
+      if (kept.length > 0) {
+        this.snapshots.set(key, kept);
+      } else {
+        this.snapshots.delete(key);
+      }
+    }
+
+    // Built now rather than when the write runs: snapshots added in the meantime are
+    // appended by their own writes, queued after this one, and must not be written twice.
+    const content = Array.from(this.snapshots.values())
+      .flat()
+      .map((snapshot) => `${JSON.stringify(snapshot)}\n`)
+      .join('');
+
+    return this.write(async () => {
+      const tmpPath = `${this.path}.tmp`;
+
+      await writeFile(tmpPath, content, 'utf8');
+      await rename(tmpPath, this.path);
+    });
+  };
+
+  /**
+   * Queues a write to the file, so that writes never interleave.
+   *
+   * @param operation The write operation to run.
+   */
+  private readonly write = (operation: () => Promise<void>): Promise<void> => {
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await operation();
+      })
+      .catch((error) => {
+        this.logger.error(`Failed to write prices to ${this.path}`, error);
+        throw error;
+      });
+
+    return this.writing;
+  };
+}
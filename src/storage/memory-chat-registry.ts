@@ -0,0 +1,33 @@
+import { ChatRegistry } from './chat-registry';
+import { RegisteredChat } from './registered-chat.interface';
+
+/**
+ * A `ChatRegistry` implementation that keeps the registered chats in memory.
+ * The registry is lost when the process exits, so it is intended for tests and local development.
+ */
+export class MemoryChatRegistry extends ChatRegistry {
+  /**
+   * A map that stores the registered chats keyed by chat ID.
+   */
+  protected readonly chats: Map<number, RegisteredChat> = new Map();
+
+  async has(chatId: number): Promise<boolean> {
+    return this.chats.has(chatId);
+  }
+
+  async add(chat: RegisteredChat): Promise<void> {
+    this.chats.set(chat.id, chat);
+  }
+
+  async remove(chatId: number): Promise<RegisteredChat | undefined> {
+    const chat = this.chats.get(chatId);
+
+    this.chats.delete(chatId);
+
+    return chat;
+  }
+
+  async list(): Promise<RegisteredChat[]> {
+    return Array.from(this.chats.values());
+  }
+}
@@ -0,0 +1,29 @@
+import { Chat } from './chat.interface';
+import { ChatStorage } from './chat-storage';
+
+/**
+ * A `ChatStorage` implementation that keeps every chat in memory.
+ * State is lost when the process exits, so it is intended for tests and local development.
+ */
+export class MemoryChatStorage extends ChatStorage {
+  /**
+   * A map that stores chat information keyed by chat ID.
+   */
+  private readonly chats: Map<number, Chat> = new Map();
+
+  async get(chatId: number): Promise<Chat | undefined> {
+    return this.chats.get(chatId);
+  }
+
+  async set(chatId: number, chat: Chat): Promise<void> {
+    this.chats.set(chatId, chat);
+  }
+
+  async delete(chatId: number): Promise<void> {
+    this.chats.delete(chatId);
+  }
+
+  async entries(): Promise<[number, Chat][]> {
+    return Array.from(this.chats);
+  }
+}
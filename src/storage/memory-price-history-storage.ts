@@ -0,0 +1,95 @@
+import { PriceSide } from 'src/price/price-provider.interface';
+import { PriceHistoryStorage } from './price-history-storage';
+import { PriceSnapshot } from './price-snapshot.interface';
+
+/**
+ * Returns the key of the series of snapshots of a market and side.
+ *
+ * @param symbol The market symbol.
+ * @param side The side of the order book.
+ *
+ * @returns The market symbol for best ask prices, so that snapshots stored by older
+ *          versions stay in their series, or the symbol and the side otherwise.
+ */
+const getSeriesKey = (symbol: string, side: PriceSide = 'ask') =>
+  side === 'ask' ? symbol : `${symbol}:${side}`;
+
+/**
+ * A `PriceHistoryStorage` implementation that keeps snapshots in memory.
+ * Snapshots older than the retention period are discarded as new ones are added.
+ * The period is counted back from the time of the added snapshot rather than the
+ * wall clock, so that snapshots taken on the scheduler clock are kept.
+ */
+export class MemoryPriceHistoryStorage extends PriceHistoryStorage {
+  /**
+   * The stored snapshots, keyed by series (see `getSeriesKey`) and sorted by time.
+   */
+  protected readonly snapshots: Map<string, PriceSnapshot[]> = new Map();
+
+  /**
+   * @param retention The time in milliseconds snapshots are kept for.
+   */
+  constructor(protected readonly retention: number) {
+    super();
+  }
+
+  async add(snapshot: PriceSnapshot): Promise<void> {
+    this.insert(snapshot);
+  }
+
+  async list(
+    symbol: string,
+    since: number,
+    side?: PriceSide,
+  ): Promise<PriceSnapshot[]> {
+    return (this.snapshots.get(getSeriesKey(symbol, side)) ?? []).filter(
+      ({ time }) => time >= since,
+    );
+  }
+
+  async findLatest(
+    symbol: string,
+    time: number,
+    side?: PriceSide,
+  ): Promise<PriceSnapshot | undefined> {
+    const snapshots = this.snapshots.get(getSeriesKey(symbol, side)) ?? [];
+
+    for (let i = snapshots.length - 1; i >= 0; i--) {
+      if (snapshots[i].time <= time) {
+        return snapshots[i];
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Inserts a snapshot in time order and discards the snapshots of the same
+   * series that are older than the retention period, counted back from the newest snapshot.
+   *
+   * @param snapshot The snapshot to insert.
+   */
+  protected readonly insert = (snapshot: PriceSnapshot) => {
+    const key = getSeriesKey(snapshot.symbol, snapshot.side);
+    const snapshots = this.snapshots.get(key) ?? [];
+    const cutoff =
+      Math.max(snapshot.time, snapshots[snapshots.length - 1]?.time ?? 0) -
+      this.retention;
+    let expired = 0;
+
+    while (expired < snapshots.length && snapshots[expired].time < cutoff) {
+      expired++;
+    }
+
+    snapshots.splice(0, expired);
+
+    let index = snapshots.length;
+
+    while (index > 0 && snapshots[index - 1].time > snapshot.time) {
+      index--;
+    }
+
+    snapshots.splice(index, 0, snapshot);
+    this.snapshots.set(key, snapshots);
+  };
+}
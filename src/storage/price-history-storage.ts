@@ -0,0 +1,48 @@
+import { PriceSide } from 'src/price/price-provider.interface';
+import { PriceSnapshot } from './price-snapshot.interface';
+
+/**
+ * PriceHistoryStorage is the persistence layer for price snapshots.
+ * It is used as the injection token for the configured storage implementation.
+ *
+ * Snapshots older than the retention period may be discarded by implementations.
+ * The prices of each side of the order book of a market form separate series.
+ */
+export abstract class PriceHistoryStorage {
+  /**
+   * Stores a price snapshot.
+   *
+   * @param snapshot The snapshot to store.
+   */
+  abstract add(snapshot: PriceSnapshot): Promise<void>;
+
+  /**
+   * Lists the stored snapshots of a market, oldest first.
+   *
+   * @param symbol The market symbol.
+   * @param since The time, in milliseconds since the Unix epoch, from which snapshots are listed.
+   * @param side The side of the order book; the best ask by default.
+   *
+   * @returns The snapshots of the market taken at or after `since`.
+   */
+  abstract list(
+    symbol: string,
+    since: number,
+    side?: PriceSide,
+  ): Promise<PriceSnapshot[]>;
+
+  /**
+   * Retrieves the latest snapshot of a market taken at or before a given time.
+   *
+   * @param symbol The market symbol.
+   * @param time The time, in milliseconds since the Unix epoch.
+   * @param side The side of the order book; the best ask by default.
+   *
+   * @returns The snapshot, or `undefined` if there is none.
+   */
+  abstract findLatest(
+    symbol: string,
+    time: number,
+    side?: PriceSide,
+  ): Promise<PriceSnapshot | undefined>;
+}
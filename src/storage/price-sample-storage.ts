@@ -0,0 +1,8 @@
+import { PriceHistoryStorage } from './price-history-storage';
+
+/**
+ * Stores the frequent price samples used to detect sudden price moves.
+ * They are kept apart from the price history of the price updates, which they would
+ * otherwise crowd, and only for as long as the longest detection window needs them.
+ */
+export abstract class PriceSampleStorage extends PriceHistoryStorage {}
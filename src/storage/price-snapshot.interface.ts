@@ -0,0 +1,32 @@
+import { PriceSide } from 'src/price/price-provider.interface';
+
+/**
+ * The price of a market at a point in time.
+ */
+export interface PriceSnapshot {
+  /**
+   * The market symbol (e.g. 'USDTIRT').
+   */
+  symbol: string;
+
+  /**
+   * The price, expressed in the quote currency.
+   */
+  price: number;
+
+  /**
+   * The side of the order book the price was taken from.
+   * Snapshots stored by older versions have no side, and are best ask prices.
+   */
+  side?: PriceSide;
+
+  /**
+   * The time the price was taken at, in milliseconds since the Unix epoch.
+   */
+  time: number;
+
+  /**
+   * The label of the provider that supplied the price.
+   */
+  source: string;
+}
@@ -0,0 +1,29 @@
+/**
+ * A channel or group the bot has been allowed to serve by an admin.
+ */
+export interface RegisteredChat {
+  /**
+   * The ID of the chat.
+   */
+  id: number;
+
+  /**
+   * The type of the chat.
+   */
+  type: 'channel' | 'group' | 'supergroup';
+
+  /**
+   * The title of the chat at the time it was registered.
+   */
+  title: string;
+
+  /**
+   * The public username of the chat, if any.
+   */
+  username?: string;
+
+  /**
+   * The time the chat was registered at, in milliseconds since the Unix epoch.
+   */
+  addedAt: number;
+}
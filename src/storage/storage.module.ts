@@ -0,0 +1,89 @@
+import { Global, Module } from '@nestjs/common';
+import { readNumberEnv } from 'src/common/env';
+import { ChatRegistry } from './chat-registry';
+import { ChatStorage } from './chat-storage';
+import { FileChatRegistry } from './file-chat-registry';
+import { FileChatStorage } from './file-chat-storage';
+import { FilePriceHistoryStorage } from './file-price-history-storage';
+import { MemoryChatRegistry } from './memory-chat-registry';
+import { MemoryChatStorage } from './memory-chat-storage';
+import { MemoryPriceHistoryStorage } from './memory-price-history-storage';
+import { PriceHistoryStorage } from './price-history-storage';
+import { PriceSampleStorage } from './price-sample-storage';
+
+/**
+ * The default number of days price snapshots are kept for.
+ */
+const DEFAULT_PRICE_HISTORY_RETENTION_DAYS = 30;
+
+/**
+ * The time in milliseconds price samples are kept for, which covers the longest
+ * window sudden price moves are detected over.
+ */
+const PRICE_SAMPLE_RETENTION = 2 * 60 * 60 * 1000;
+
+/**
+ * Provides the `ChatStorage`, `ChatRegistry` and `PriceHistoryStorage` implementations selected by
+ * the `STORAGE_DRIVER` environment variable: `file` (default) or `memory`.
+ * The short-lived `PriceSampleStorage` is always kept in memory.
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: ChatStorage,
+      useFactory: (): ChatStorage => {
+        if (process.env.STORAGE_DRIVER === 'memory') {
+          return new MemoryChatStorage();
+        }
+
+        return new FileChatStorage(
+          process.env.STORAGE_FILE ?? 'data/chats.json',
+        );
+      },
+    },
+    {
+      provide: ChatRegistry,
+      useFactory: (): ChatRegistry => {
+        if (process.env.STORAGE_DRIVER === 'memory') {
+          return new MemoryChatRegistry();
+        }
+
+        return new FileChatRegistry(
+          process.env.CHAT_REGISTRY_FILE ?? 'data/registry.json',
+        );
+      },
+    },
+    {
+      provide: PriceHistoryStorage,
+      useFactory: (): PriceHistoryStorage => {
+        const retention =
+          readNumberEnv(
+            'PRICE_HISTORY_RETENTION_DAYS',
+            DEFAULT_PRICE_HISTORY_RETENTION_DAYS,
+            { allowZero: false },
+          ) *
+          24 *
+          60 *
+          60 *
+          1000;
+
+        if (process.env.STORAGE_DRIVER === 'memory') {
+          return new MemoryPriceHistoryStorage(retention);
+        }
+
+        return new FilePriceHistoryStorage(
+          process.env.PRICE_HISTORY_FILE ?? 'data/prices.jsonl',
+          retention,
+        );
+      },
+    },
+    {
+      provide: PriceSampleStorage,
+      useFactory: (): PriceSampleStorage =>
+        new MemoryPriceHistoryStorage(PRICE_SAMPLE_RETENTION),
+    },
+  ],
+  exports: [ChatStorage, ChatRegistry, PriceHistoryStorage, PriceSampleStorage],
+})
+export class StorageModule {}
@@ -1,24 +1,42 @@
-import { Test, TestingModule } from '@nestjs/testing';
-import { INestApplication } from '@nestjs/common';
 import * as request from 'supertest';
-import { AppModule } from './../src/app.module';
+import { createTestApp, TestApp } from './harness/create-test-app';
 
-describe('AppController (e2e)', () => {
-  let app: INestApplication;
+describe('StatusController (e2e)', () => {
+  const API_KEY = 'status-key';
+
+  let testApp: TestApp;
 
   beforeEach(async () => {
-    const moduleFixture: TestingModule = await Test.createTestingModule({
-      imports: [AppModule],
-    }).compile();
+    testApp = await createTestApp(Date.parse('2025-01-01T09:58:00Z'), {
+      STATUS_API_KEY: API_KEY,
+    });
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
 
-    app = moduleFixture.createNestApplication();
-    await app.init();
+  it('/status/health (GET) requires the API key', () => {
+    return request(testApp.app.getHttpServer())
+      .get('/status/health')
+      .expect(401);
+  });
+
+  it('/status/health (GET)', () => {
+    return request(testApp.app.getHttpServer())
+      .get('/status/health')
+      .set('X-API-Key', API_KEY)
+      .expect(200)
+      .expect(({ body }) => expect(body.status).toBe('ok'));
   });
 
-  it('/ (GET)', () => {
-    return request(app.getHttpServer())
-      .get('/')
+  it('/status/ready (GET) once the webhook is set', () => {
+    return request(testApp.app.getHttpServer())
+      .get('/status/ready')
+      .set('X-API-Key', API_KEY)
       .expect(200)
-      .expect('Hello World!');
+      .expect(({ body }) =>
+        expect(body).toMatchObject({ ready: true, botLaunched: true }),
+      );
   });
 });
@@ -0,0 +1,872 @@
+import { en } from 'src/i18n/messages/en';
+import * as request from 'supertest';
+import { createTestApp, TestApp } from './harness/create-test-app';
+import {
+  createCallbackQueryUpdate,
+  createChannel,
+  createChannelPostUpdate,
+  createInlineQueryUpdate,
+  createMessageUpdate,
+  createPrivateChat,
+  createUser,
+} from './harness/updates';
+
+describe('BotService (e2e)', () => {
+  const MINUTE = 60 * 1000;
+  const SEPARATOR = '\n-------------------------------- \n';
+  const user = createUser(42);
+  const chat = createPrivateChat(user);
+  const channel = createChannel(-1001234567890);
+
+  /**
+   * The ID of the message the inline keyboards are attached to.
+   * Replies sent through the webhook response get no ID, so any ID will do.
+   */
+  const KEYBOARD_MESSAGE_ID = 1;
+
+  /**
+   * Formats an amount of IRR the way the bot does in English.
+   */
+  const rial = (amount: string) => `\u200Eریال\u00A0${amount}`;
+
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp(Date.parse('2025-01-01T09:58:00Z'), {
+      ADMIN_USER_IDS: String(user.id),
+    });
+    testApp.exchange.setPrice('USDTIRT', 600000);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  /**
+   * Sends a message to the bot in the private chat of the user.
+   */
+  const sendMessage = (text: string) =>
+    testApp.send(createMessageUpdate(chat, user, text));
+
+  /**
+   * Presses a button of the inline keyboard attached to a message.
+   */
+  const pressButton = (data: string) =>
+    testApp.send(
+      createCallbackQueryUpdate(chat, user, data, KEYBOARD_MESSAGE_ID),
+    );
+
+  /**
+   * Subscribes the user to USDTIRT through /subscribe and its keyboard.
+   */
+  const subscribe = async () => {
+    await sendMessage('/subscribe');
+    await testApp.telegram.waitForCalls('sendMessage');
+    await pressButton('toggle_currency_USDTIRT');
+    await testApp.telegram.waitForCalls('editMessageText');
+    await pressButton('confirm_currency');
+    await testApp.telegram.waitForCalls('sendMessage', 2);
+  };
+
+  it('welcomes new users on /start', async () => {
+    await sendMessage('/start');
+
+    const [welcome] = await testApp.telegram.waitForCalls('sendMessage');
+    expect(welcome.payload).toMatchObject({
+      chat_id: chat.id,
+      text: en.welcome(false, en.interval(30)),
+    });
+  });
+
+  it('subscribes to the currencies toggled on the keyboard', async () => {
+    await sendMessage('/subscribe');
+
+    const [keyboard] = await testApp.telegram.waitForCalls('sendMessage');
+    expect(keyboard.payload.text).toBe(en.selectCurrencies);
+    expect(
+      JSON.stringify(keyboard.payload.reply_markup.inline_keyboard),
+    ).toContain('toggle_currency_USDTIRT');
+
+    await pressButton('toggle_currency_USDTIRT');
+
+    const [edit] = await testApp.telegram.waitForCalls('editMessageText');
+    expect(edit.payload.text).toBe(en.selectCurrencies);
+    expect(
+      edit.payload.reply_markup.inline_keyboard
+        .flat()
+        .find(
+          ({ callback_data }) => callback_data === 'toggle_currency_USDTIRT',
+        ).text,
+    ).toContain('⭕');
+
+    await pressButton('confirm_currency');
+
+    const [, confirmation] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      2,
+    );
+    expect(confirmation.payload.text).toBe(
+      en.currenciesConfirmed('USDTIRT', en.interval(30)),
+    );
+  });
+
+  it('refuses to subscribe to currencies that are not in the market catalogue', async () => {
+    await sendMessage('/subscribe');
+    await testApp.telegram.waitForCalls('sendMessage');
+
+    await pressButton('toggle_currency_DOGEIRT');
+
+    const [answer] = await testApp.telegram.waitForCalls('answerCallbackQuery');
+    expect(answer.payload.text).toBe(en.currencyUnavailable);
+    expect(testApp.telegram.callsOf('editMessageText')).toEqual([]);
+
+    await pressButton('confirm_currency');
+
+    const [, refusal] = await testApp.telegram.waitForCalls(
+      'answerCallbackQuery',
+      2,
+    );
+    expect(refusal.payload.text).toBe(en.selectAtLeastOneCurrency);
+  });
+
+  it('sends the scheduled digest with the change since the previous one', async () => {
+    await subscribe();
+
+    await testApp.clock.advance(2 * MINUTE);
+
+    const [, , digest] = await testApp.telegram.waitForCalls('sendMessage', 3);
+    expect(digest.payload).toMatchObject({
+      chat_id: chat.id,
+      text: [
+        en.header('2025/01/01 - 10:00 - UTC'),
+        `USDTIRT \n$1.00 = ${rial('600,000')} \nSource: Nobitex`,
+      ].join(SEPARATOR),
+    });
+
+    testApp.exchange.setPrice('USDTIRT', 612000);
+    await testApp.clock.advance(30 * MINUTE);
+
+    const [, , , nextDigest] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      4,
+    );
+    expect(nextDigest.payload.text).toBe(
+      [
+        en.header('2025/01/01 - 10:30 - UTC'),
+        [
+          'USDTIRT',
+          `$1.00 = ${rial('612,000')}`,
+          en.sinceLastUpdate(`▲ ${rial('12,000')} (\u200E+2%)`),
+          en.highLow24h(rial('612,000'), rial('600,000')),
+          en.source('Nobitex'),
+        ].join(' \n'),
+      ].join(SEPARATOR),
+    );
+  });
+
+  it('shows the change and the range over the last 24 hours in digests', async () => {
+    await subscribe();
+    await sendMessage('/interval');
+    await pressButton('set_interval_720');
+    await testApp.telegram.waitForCalls('editMessageText', 2);
+
+    await testApp.clock.advance(2 * 60 * MINUTE + 2 * MINUTE);
+    await testApp.telegram.waitForCalls('sendMessage', 4);
+    testApp.exchange.setPrice('USDTIRT', 630000);
+    await testApp.clock.advance(12 * 60 * MINUTE);
+    await testApp.telegram.waitForCalls('sendMessage', 5);
+    testApp.exchange.setPrice('USDTIRT', 660000);
+    await testApp.clock.advance(12 * 60 * MINUTE);
+
+    const [, , , , , digest] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      6,
+    );
+    expect(digest.payload.text).toBe(
+      [
+        en.header('2025/01/02 - 12:00 - UTC'),
+        [
+          'USDTIRT',
+          `$1.00 = ${rial('660,000')}`,
+          en.sinceLastUpdate(`▲ ${rial('30,000')} (\u200E+4.76%)`),
+          en.in24h(`▲ ${rial('60,000')} (\u200E+10%)`),
+          en.highLow24h(rial('660,000'), rial('600,000')),
+          en.source('Nobitex'),
+        ].join(' \n'),
+      ].join(SEPARATOR),
+    );
+  });
+
+  it('sends digests only at the interval of the chat', async () => {
+    await subscribe();
+    await sendMessage('/interval');
+    await pressButton('set_interval_60');
+    await testApp.telegram.waitForCalls('editMessageText', 2);
+
+    await testApp.clock.advance(2 * MINUTE);
+
+    const [, , , digest] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      4,
+    );
+    expect(digest.payload.text).toContain(
+      en.header('2025/01/01 - 10:00 - UTC'),
+    );
+
+    await testApp.clock.advance(30 * MINUTE);
+
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(4);
+  });
+
+  it('sends the next digest while the previous one is still being delivered', async () => {
+    await subscribe();
+    await sendMessage('/interval');
+    await pressButton('set_interval_5');
+    await testApp.telegram.waitForCalls('editMessageText', 2);
+    testApp.telegram.responseDelay = 200;
+
+    await testApp.clock.advance(2 * MINUTE);
+    await testApp.clock.advance(5 * MINUTE);
+
+    const [, , , first, second] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      5,
+    );
+    expect(first.payload.text).toContain(en.header('2025/01/01 - 10:00 - UTC'));
+    expect(second.payload.text).toContain(
+      en.header('2025/01/01 - 10:05 - UTC'),
+    );
+  });
+
+  it('holds digests back during quiet hours and sends a morning summary when they end', async () => {
+    await subscribe();
+    await sendMessage('/timezone Asia/Tehran');
+    // 13:00-14:00 in Tehran (UTC+03:30) is 09:30-10:30 UTC.
+    await sendMessage('/quiet 13:00-14:00');
+    await sendMessage('/morningsummary');
+    await testApp.telegram.waitForCalls('sendMessage', 5);
+
+    await testApp.clock.advance(2 * MINUTE);
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(5);
+
+    testApp.exchange.setPrice('USDTIRT', 612000);
+    await testApp.clock.advance(30 * MINUTE);
+
+    const [, , , , , digest, summary] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      7,
+    );
+    expect(digest.payload.text).toContain(
+      en.header('2025/01/01 - 10:30 - UTC'),
+    );
+    expect(summary.payload.text).toBe(
+      [
+        en.morningHeader('2025/01/01 - 10:30 - UTC'),
+        [
+          'USDTIRT',
+          `$1.00 = ${rial('612,000')}`,
+          en.overnightChange(`▲ ${rial('12,000')} (\u200E+2%)`),
+          en.overnightHighLow(rial('612,000'), rial('600,000')),
+          en.source('Nobitex'),
+        ].join(' \n'),
+      ].join(SEPARATOR),
+    );
+
+    await testApp.clock.advance(30 * MINUTE);
+    await testApp.telegram.waitForCalls('sendMessage', 8);
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(8);
+  });
+
+  it('sends digests with the price on the side of the order book chosen for the chat', async () => {
+    testApp.exchange.setOrderBook('USDTIRT', [[598000, 1]], [[602000, 1]]);
+    await subscribe();
+    await sendMessage('/digestprice');
+    await pressButton('set_price_side_bid');
+    await testApp.telegram.waitForCalls('editMessageText', 2);
+
+    await testApp.clock.advance(2 * MINUTE);
+
+    const [, , , digest] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      4,
+    );
+    expect(digest.payload.text).toBe(
+      [
+        en.header('2025/01/01 - 10:00 - UTC'),
+        `USDTIRT (Best bid) \n$1.00 = ${rial('598,000')} \nSource: Nobitex`,
+      ].join(SEPARATOR),
+    );
+  });
+
+  it('replies to /book with the top of the order book and its depth', async () => {
+    testApp.exchange.setOrderBook(
+      'USDTIRT',
+      [
+        [598000, 2],
+        [597000, 1],
+      ],
+      [
+        [602000, 1],
+        [603000, 3],
+      ],
+    );
+
+    await sendMessage('/book USDTIRT 2');
+
+    const [book] = await testApp.telegram.waitForCalls('sendMessage');
+    const lines = book.payload.text.split('\n');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        en.bookTitle('USDTIRT', 'Nobitex'),
+        en.bestBid(rial('598,000')),
+        en.bestAsk(rial('602,000')),
+        en.midPrice(rial('600,000')),
+        en.depth('2'),
+        en.depthBids('3 USDT', rial('1,793,000')),
+        en.depthAsks('4 USDT', rial('2,411,000')),
+      ]),
+    );
+
+    await sendMessage('/book USDTIRT 0');
+
+    const [, usage] = await testApp.telegram.waitForCalls('sendMessage', 2);
+    expect(usage.payload.text).toContain('/book <currency> [levels]');
+  });
+
+  it('replies to /convert with amounts in Persian digits, bridging assets without a market', async () => {
+    testApp.exchange.setOrderBook('USDTIRT', [[599000, 1]], [[601000, 1]]);
+    testApp.exchange.setOrderBook(
+      'BTCIRT',
+      [[5990000000, 1]],
+      [[6010000000, 1]],
+    );
+    testApp.exchange.setOrderBook('ETHIRT', [[199000000, 1]], [[201000000, 1]]);
+
+    await sendMessage('/convert ۱۵۰ usdt irt');
+
+    const [direct] = await testApp.telegram.waitForCalls('sendMessage');
+    expect(direct.payload.text).toBe(
+      [en.convertResult('$150.00', rial('90,000,000')), en.convertBasis].join(
+        '\n',
+      ),
+    );
+
+    await sendMessage('/convert 0.5 BTC ETH');
+
+    const [, bridged] = await testApp.telegram.waitForCalls('sendMessage', 2);
+    expect(bridged.payload.text).toBe(
+      [
+        en.convertResult('BTC\u00A00.50', 'ETH\u00A015.00'),
+        en.convertRoute('BTC → IRT → ETH'),
+        en.convertBasis,
+      ].join('\n'),
+    );
+
+    await sendMessage('/convert 1 BTC DOGE');
+
+    const [, , usage] = await testApp.telegram.waitForCalls('sendMessage', 3);
+    expect(usage.payload.text).toContain('/convert <amount> <from> <to>');
+  });
+
+  it('values the portfolio in digests when asked to', async () => {
+    await subscribe();
+    await sendMessage('/portfolio add USDT 150');
+    await sendMessage('/portfolio digest');
+
+    const [, , added, digestOn] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      4,
+    );
+    expect(added.payload.text).toBe(en.portfolioUpdated('USDT', '150 USDT'));
+    expect(digestOn.payload.text).toBe(en.portfolioDigestOn);
+
+    await testApp.clock.advance(2 * MINUTE);
+
+    const [, , , , digest] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      5,
+    );
+    expect(digest.payload.text).toBe(
+      [
+        en.header('2025/01/01 - 10:00 - UTC'),
+        `USDTIRT \n$1.00 = ${rial('600,000')} \nSource: Nobitex`,
+        [
+          en.portfolioTitle,
+          en.portfolioHolding('150 USDT', rial('90,000,000')),
+          en.portfolioTotal(`${rial('90,000,000')} | $150.00`),
+        ].join(' \n'),
+      ].join(SEPARATOR),
+    );
+  });
+
+  it('sends compact digests with one line per currency', async () => {
+    await subscribe();
+    await sendMessage('/digesttemplate');
+    await pressButton('set_digest_template_compact');
+    await testApp.telegram.waitForCalls('editMessageText', 2);
+
+    await testApp.clock.advance(2 * MINUTE);
+
+    const [, , , digest] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      4,
+    );
+    expect(digest.payload.text).toBe(
+      [
+        en.header('2025/01/01 - 10:00 - UTC'),
+        `USDTIRT: ${rial('600,000')}`,
+      ].join('\n'),
+    );
+  });
+
+  it('sends HTML digests with bold prices', async () => {
+    await subscribe();
+    await sendMessage('/digesttemplate');
+    await pressButton('set_digest_template_html');
+    await testApp.telegram.waitForCalls('editMessageText', 2);
+
+    await testApp.clock.advance(2 * MINUTE);
+
+    const [, , , digest] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      4,
+    );
+    expect(digest.payload).toMatchObject({
+      parse_mode: 'HTML',
+      text: [
+        en.header('2025/01/01 - 10:00 - UTC'),
+        `USDTIRT \n$1.00 = <b>${rial('600,000')}</b> \nSource: Nobitex`,
+      ].join(SEPARATOR),
+    });
+  });
+
+  it('replies to /chart with a chart of the price history', async () => {
+    await subscribe();
+    await sendMessage('/chart USDTIRT');
+
+    const [, , notEnoughHistory] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      3,
+    );
+    expect(notEnoughHistory.payload.text).toBe(
+      en.chartNotEnoughHistory('USDTIRT'),
+    );
+
+    await testApp.clock.advance(2 * MINUTE);
+    testApp.exchange.setPrice('USDTIRT', 612000);
+    await testApp.clock.advance(30 * MINUTE);
+    await testApp.telegram.waitForCalls('sendMessage', 5);
+
+    await sendMessage('/chart USDTIRT 7d');
+
+    await testApp.telegram.waitForCalls('sendPhoto');
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(5);
+  });
+
+  it('charts the price history on the side of the order book chosen for the chat', async () => {
+    await subscribe();
+    await testApp.clock.advance(2 * MINUTE);
+    await testApp.clock.advance(30 * MINUTE);
+    await testApp.telegram.waitForCalls('sendMessage', 4);
+
+    await sendMessage('/digestprice');
+    await testApp.telegram.waitForCalls('sendMessage', 5);
+    await pressButton('set_price_side_bid');
+    await testApp.telegram.waitForCalls('editMessageText', 2);
+    await sendMessage('/chart USDTIRT');
+
+    // Only best ask prices have been recorded so far.
+    const [, , , , , notEnoughHistory] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      6,
+    );
+    expect(notEnoughHistory.payload.text).toBe(
+      en.chartNotEnoughHistory('USDTIRT'),
+    );
+
+    await testApp.clock.advance(60 * MINUTE);
+    await testApp.telegram.waitForCalls('sendMessage', 8);
+    await sendMessage('/chart USDTIRT');
+
+    await testApp.telegram.waitForCalls('sendPhoto');
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(8);
+  });
+
+  it('sends a chart with digests once there is enough history', async () => {
+    await subscribe();
+    await sendMessage('/digestchart');
+
+    const [, , confirmation] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      3,
+    );
+    expect(confirmation.payload.text).toBe(en.digestChartOn);
+
+    await testApp.clock.advance(2 * MINUTE);
+    await testApp.telegram.waitForCalls('sendMessage', 4);
+    expect(testApp.telegram.callsOf('sendPhoto')).toHaveLength(0);
+
+    testApp.exchange.setPrice('USDTIRT', 612000);
+    await testApp.clock.advance(30 * MINUTE);
+
+    await testApp.telegram.waitForCalls('sendPhoto');
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(5);
+  });
+
+  it('edits a pinned message in live ticker mode', async () => {
+    await subscribe();
+    await sendMessage('/liveticker');
+    await testApp.telegram.waitForCalls('sendMessage', 3);
+
+    await testApp.clock.advance(2 * MINUTE);
+
+    const [pin] = await testApp.telegram.waitForCalls('pinChatMessage');
+    const liveMessageId = pin.payload.message_id;
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(4);
+
+    testApp.exchange.setPrice('USDTIRT', 612000);
+    await testApp.clock.advance(30 * MINUTE);
+
+    const [, edit] = await testApp.telegram.waitForCalls('editMessageText', 2);
+    expect(edit.payload).toMatchObject({
+      chat_id: chat.id,
+      message_id: liveMessageId,
+    });
+    expect(edit.payload.text).toContain(en.header('2025/01/01 - 10:30 - UTC'));
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(4);
+
+    testApp.telegram.deletedMessages.add(liveMessageId);
+    await testApp.clock.advance(30 * MINUTE);
+
+    const [, newPin] = await testApp.telegram.waitForCalls('pinChatMessage', 2);
+    const [, , , , digest] = testApp.telegram.callsOf('sendMessage');
+    expect(digest.payload.text).toContain(
+      en.header('2025/01/01 - 11:00 - UTC'),
+    );
+    expect(newPin.payload.message_id).not.toBe(liveMessageId);
+  });
+
+  it('handles commands posted in a registered channel', async () => {
+    await sendMessage(`/admin_add_channel ${channel.id}`);
+    await testApp.telegram.waitForCalls('sendMessage');
+
+    await testApp.send(createChannelPostUpdate(channel, '/start'));
+    const [, , keyboard] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      3,
+    );
+    expect(keyboard.payload).toMatchObject({
+      chat_id: channel.id,
+      text: en.selectCurrencies,
+    });
+
+    await testApp.send(
+      createCallbackQueryUpdate(
+        channel,
+        user,
+        'toggle_currency_USDTIRT',
+        KEYBOARD_MESSAGE_ID,
+      ),
+    );
+    await testApp.telegram.waitForCalls('editMessageText');
+    await testApp.send(
+      createCallbackQueryUpdate(
+        channel,
+        user,
+        'confirm_currency',
+        KEYBOARD_MESSAGE_ID,
+      ),
+    );
+    await testApp.telegram.waitForCalls('sendMessage', 4);
+
+    await testApp.send(createChannelPostUpdate(channel, '/liveticker'));
+    const [, , , , liveTicker] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      5,
+    );
+    expect(liveTicker.payload).toMatchObject({
+      chat_id: channel.id,
+      text: en.liveTickerOn,
+    });
+
+    await testApp.send(createChannelPostUpdate(channel, '/interval@OtherBot'));
+    await testApp.clock.advance(2 * MINUTE);
+
+    const [pin] = await testApp.telegram.waitForCalls('pinChatMessage');
+    const [, , , , , digest] = testApp.telegram.callsOf('sendMessage');
+    expect(pin.payload.chat_id).toBe(channel.id);
+    expect(digest.payload).toMatchObject({
+      chat_id: channel.id,
+      text: expect.stringContaining(en.header('2025/01/01 - 10:00 - UTC')),
+    });
+  });
+
+  it('replies to /price on the side of the chat, falling back to the last known price', async () => {
+    testApp.exchange.setOrderBook('USDTIRT', [[598000, 1]], [[602000, 1]]);
+    await sendMessage('/digestprice');
+    await testApp.telegram.waitForCalls('sendMessage');
+    await pressButton('set_price_side_mid');
+    await testApp.telegram.waitForCalls('editMessageText');
+
+    await sendMessage('/price USDTIRT');
+
+    const [, reply] = await testApp.telegram.waitForCalls('sendMessage', 2);
+    expect(reply.payload.text).toBe(
+      [
+        en.header('2025/01/01 - 09:58 - UTC'),
+        `USDTIRT (Mid price) \n$1.00 = ${rial('600,000')} \nSource: Nobitex`,
+      ].join(SEPARATOR),
+    );
+
+    testApp.exchange.failWith = 503;
+    await sendMessage('/price USDTIRT');
+
+    const [, , staleReply] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      3,
+    );
+    expect(staleReply.payload.text).toContain(rial('600,000'));
+    expect(staleReply.payload.text).not.toContain(en.priceError('USDTIRT'));
+  });
+
+  it('answers inline queries with the matching markets', async () => {
+    await testApp.send(createInlineQueryUpdate(user, 'usdt'));
+
+    const [answer] = await testApp.telegram.waitForCalls('answerInlineQuery');
+    expect(answer.payload.results).toContainEqual(
+      expect.objectContaining({
+        id: 'USDTIRT',
+        title: 'USDTIRT',
+        description: `$1.00 = ${rial('600,000')} `,
+        input_message_content: {
+          message_text: [
+            en.header('2025/01/01 - 09:58 - UTC'),
+            `USDTIRT \n$1.00 = ${rial('600,000')} \nSource: Nobitex`,
+          ].join(SEPARATOR),
+        },
+      }),
+    );
+  });
+
+  it('refuses /admin_add_channel to users who are not admins of the bot', async () => {
+    const stranger = createUser(7);
+
+    await testApp.send(
+      createMessageUpdate(
+        createPrivateChat(stranger),
+        stranger,
+        `/admin_add_channel ${channel.id}`,
+      ),
+    );
+
+    const [refusal] = await testApp.telegram.waitForCalls('sendMessage');
+    expect(refusal.payload.text).toBe(en.adminOnly);
+
+    await testApp.send(createChannelPostUpdate(channel, '/start'));
+    expect(testApp.telegram.callsOf('getChat')).toEqual([]);
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(1);
+  });
+
+  it('notifies price alerts once the threshold is crossed', async () => {
+    await sendMessage('/alert USDTIRT above 610000');
+
+    const [confirmation] = await testApp.telegram.waitForCalls('sendMessage');
+    expect(confirmation.payload.text).toBe(
+      en.alertSet(en.alertDescription('USDTIRT', 'above', rial('610,000'))),
+    );
+
+    await testApp.clock.advance(MINUTE);
+    testApp.exchange.setPrice('USDTIRT', 615000);
+    await testApp.clock.advance(MINUTE);
+
+    const [, alert] = await testApp.telegram.waitForCalls('sendMessage', 2);
+    expect(alert.payload.text).toBe(
+      en.alertTriggered(
+        en.alertDescription('USDTIRT', 'above', rial('610,000')),
+        rial('615,000'),
+      ),
+    );
+
+    await testApp.clock.advance(MINUTE);
+    expect(testApp.telegram.callsOf('sendMessage')).toHaveLength(2);
+  });
+
+  it('checks price alerts on the side of the order book chosen for the chat', async () => {
+    testApp.exchange.setOrderBook('USDTIRT', [[598000, 1]], [[602000, 1]]);
+    await sendMessage('/digestprice');
+    await testApp.telegram.waitForCalls('sendMessage');
+    await pressButton('set_price_side_bid');
+    await testApp.telegram.waitForCalls('editMessageText');
+    await sendMessage('/alert USDTIRT above 600000');
+    await testApp.telegram.waitForCalls('sendMessage', 2);
+
+    await testApp.clock.advance(MINUTE);
+    testApp.exchange.setOrderBook('USDTIRT', [[605000, 1]], [[607000, 1]]);
+    await testApp.clock.advance(MINUTE);
+
+    const [, , alert] = await testApp.telegram.waitForCalls('sendMessage', 3);
+    expect(alert.payload.text).toBe(
+      en.alertTriggered(
+        en.alertDescription('USDTIRT', 'above', rial('600,000')),
+        rial('605,000'),
+      ),
+    );
+  });
+
+  it('accepts alert thresholds in Persian digits and directions in any case', async () => {
+    await sendMessage('/alert usdtirt Above ۶۱۰٬۰۰۰');
+
+    const [confirmation] = await testApp.telegram.waitForCalls('sendMessage');
+    expect(confirmation.payload.text).toBe(
+      en.alertSet(en.alertDescription('USDTIRT', 'above', rial('610,000'))),
+    );
+  });
+
+  it('notifies sudden moves once per cooldown and not during quiet hours', async () => {
+    const suddenMoves = () =>
+      testApp.telegram
+        .callsOf('sendMessage')
+        .filter(({ payload }) => payload.text.startsWith('⚡ Sudden move!'))
+        .map(({ payload }) => payload.text);
+
+    await subscribe();
+    await sendMessage('/volatility');
+    await testApp.telegram.waitForCalls('sendMessage', 3);
+    await pressButton('set_volatility_threshold_2');
+    await testApp.telegram.waitForCalls('editMessageText', 2);
+    await sendMessage('/quiet 10:30-11:30');
+    await testApp.telegram.waitForCalls('sendMessage', 4);
+
+    // Samples are taken every minute; the digest shows the one of 10:00 has been taken.
+    await testApp.clock.advance(2 * MINUTE);
+    await testApp.telegram.waitForCalls('sendMessage', 5);
+    testApp.exchange.setPrice('USDTIRT', 615000);
+    await testApp.clock.advance(MINUTE);
+
+    await testApp.telegram.waitForCalls('sendMessage', 6);
+    expect(suddenMoves()).toEqual([
+      [
+        en.volatilityMoved('USDTIRT', '\u200E+2.5%', en.interval(15)),
+        en.volatilityPrices(rial('600,000'), rial('615,000')),
+      ].join(' \n'),
+    ]);
+
+    // Still within the cooldown of the first notification.
+    testApp.exchange.setPrice('USDTIRT', 630000);
+    await testApp.clock.advance(MINUTE);
+
+    // Past the cooldown, but within the quiet hours.
+    await testApp.clock.advance(63 * MINUTE);
+    testApp.exchange.setPrice('USDTIRT', 660000);
+    await testApp.clock.advance(MINUTE);
+    expect(suddenMoves()).toHaveLength(1);
+
+    // The digest of 11:30 shows the quiet hours have ended.
+    await testApp.clock.advance(25 * MINUTE);
+    await testApp.telegram.waitForCalls('sendMessage', 7);
+    testApp.exchange.setPrice('USDTIRT', 700000);
+    await testApp.clock.advance(MINUTE);
+
+    await testApp.telegram.waitForCalls('sendMessage', 8);
+    expect(suddenMoves()).toEqual([
+      expect.any(String),
+      [
+        en.volatilityMoved('USDTIRT', '\u200E+6.06%', en.interval(15)),
+        en.volatilityPrices(rial('660,000'), rial('700,000')),
+      ].join(' \n'),
+    ]);
+  });
+
+  it('checks price alerts while the previous ones are still being delivered', async () => {
+    await sendMessage('/alert USDTIRT above 610000');
+    await sendMessage('/alert USDTIRT above 620000');
+    await testApp.telegram.waitForCalls('sendMessage', 2);
+    testApp.telegram.responseDelay = 200;
+
+    await testApp.clock.advance(MINUTE);
+    testApp.exchange.setPrice('USDTIRT', 615000);
+    await testApp.clock.advance(MINUTE);
+    testApp.exchange.setPrice('USDTIRT', 625000);
+    await testApp.clock.advance(MINUTE);
+
+    const [, , first, second] = await testApp.telegram.waitForCalls(
+      'sendMessage',
+      4,
+    );
+    expect(first.payload.text).toBe(
+      en.alertTriggered(
+        en.alertDescription('USDTIRT', 'above', rial('610,000')),
+        rial('615,000'),
+      ),
+    );
+    expect(second.payload.text).toBe(
+      en.alertTriggered(
+        en.alertDescription('USDTIRT', 'above', rial('620,000')),
+        rial('625,000'),
+      ),
+    );
+  });
+});
+
+describe('Webhook (e2e)', () => {
+  const user = createUser(42);
+  const chat = createPrivateChat(user);
+
+  let testApp: TestApp;
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('keeps the path of WEBHOOK_URL in the registered webhook', async () => {
+    testApp = await createTestApp(Date.parse('2025-01-01T09:58:00Z'), {
+      WEBHOOK_URL: 'https://example.com/bot/',
+    });
+
+    expect(testApp.telegram.webhook.url).toBe(
+      'https://example.com/bot/telegram/webhook',
+    );
+  });
+
+  it('uses a random secret token when WEBHOOK_SECRET is empty', async () => {
+    testApp = await createTestApp(Date.parse('2025-01-01T09:58:00Z'), {
+      WEBHOOK_SECRET: '',
+    });
+
+    const { url, secretToken } = testApp.telegram.webhook;
+    expect(secretToken).toMatch(/^[0-9a-f]{64}$/);
+
+    // Updates without the secret token fall through to the routes of the application.
+    await request(testApp.app.getHttpServer())
+      .post(new URL(url).pathname)
+      .send(createMessageUpdate(chat, user, '/start'))
+      .expect(404);
+    expect(testApp.telegram.callsOf('sendMessage')).toEqual([]);
+  });
+});
+
+describe('Chat registry seeding (e2e)', () => {
+  const channel = createChannel(-1001234567890);
+
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp(Date.parse('2025-01-01T09:58:00Z'), {
+      SEED_CHATS: String(channel.id),
+    });
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('serves the channels of SEED_CHATS from the first start', async () => {
+    await testApp.send(createChannelPostUpdate(channel, '/start'));
+
+    const [welcome] = await testApp.telegram.waitForCalls('sendMessage');
+    expect(welcome.payload).toMatchObject({
+      chat_id: channel.id,
+      text: en.welcome(true, en.interval(30)),
+    });
+  });
+});
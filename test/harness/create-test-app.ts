@@ -0,0 +1,110 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { AppModule } from 'src/app.module';
+import { Clock } from 'src/scheduler/clock';
+import { FakeClock } from 'src/scheduler/fake-clock';
+import { Telegraf } from 'telegraf';
+import { Update } from 'telegraf/types';
+import { FakeExchangeServer } from './fake-exchange-server';
+import { FakeTelegramServer } from './fake-telegram-server';
+
+/**
+ * The application under test, wired to the stand-in servers.
+ */
+export interface TestApp {
+  /**
+   * The Nest application.
+   */
+  app: INestApplication;
+
+  /**
+   * The stand-in Telegram Bot API.
+   */
+  telegram: FakeTelegramServer;
+
+  /**
+   * The stand-in exchange the prices are fetched from.
+   */
+  exchange: FakeExchangeServer;
+
+  /**
+   * The clock the scheduled jobs run on.
+   */
+  clock: FakeClock;
+
+  /**
+   * Delivers an update to the bot and waits for the webhook request to be answered.
+   */
+  send: (update: Update) => Promise<void>;
+
+  /**
+   * Stops the application and the stand-in servers, and restores the environment variables.
+   */
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts the whole application in webhook mode, with in-memory storage, a fake clock,
+ * and the Telegram Bot API and the Nobitex API replaced by in-process stand-ins.
+ *
+ * @param time The initial time of the clock, in milliseconds since the Unix epoch.
+ * @param env Environment variables to set on top of the test defaults, until the app is closed.
+ *
+ * @returns The running application.
+ */
+export const createTestApp = async (
+  time: number,
+  env: Record<string, string> = {},
+): Promise<TestApp> => {
+  const telegram = new FakeTelegramServer();
+  const exchange = new FakeExchangeServer();
+  const apiRoot = await telegram.start();
+  const exchangeUrl = await exchange.start();
+  const token = '123456:TEST';
+  const previousEnv = { ...process.env };
+
+  Object.assign(process.env, {
+    TELEGRAM_BOT_TOKEN: token,
+    BOT_MODE: 'webhook',
+    WEBHOOK_URL: 'https://bot.example.com',
+    WEBHOOK_SECRET: 'webhook-secret',
+    STORAGE_DRIVER: 'memory',
+    PRICE_PROVIDERS: 'nobitex',
+    NOBITEX_API_URL: exchangeUrl,
+    PRICE_CACHE_TTL: '0',
+    PRICE_RETRIES: '0',
+    ...env,
+  });
+
+  const clock = new FakeClock(time);
+  const moduleRef = await Test.createTestingModule({ imports: [AppModule] })
+    .overrideProvider(Clock)
+    .useValue(clock)
+    .overrideProvider(Telegraf)
+    .useValue(new Telegraf(token, { telegram: { apiRoot } }))
+    .compile();
+  const app = moduleRef.createNestApplication({ logger: false });
+
+  await app.init();
+  await telegram.waitForCalls('setWebhook');
+
+  return {
+    app,
+    telegram,
+    exchange,
+    clock,
+    send: (update) => telegram.deliver(app.getHttpServer(), update),
+    close: async () => {
+      await app.close();
+      await Promise.all([telegram.stop(), exchange.stop()]);
+
+      for (const name of Object.keys(process.env)) {
+        if (!(name in previousEnv)) {
+          delete process.env[name];
+        }
+      }
+
+      Object.assign(process.env, previousEnv);
+    },
+  };
+};
@@ -0,0 +1,109 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * An in-process stand-in for the Nobitex order book API, serving the order books it is given.
+ */
+export class FakeExchangeServer {
+  /**
+   * The paths requested, in order.
+   */
+  readonly requests: string[] = [];
+
+  /**
+   * The HTTP status every request is answered with instead, e.g. 503 to simulate an outage.
+   */
+  failWith?: number;
+
+  /**
+   * The order books served, as Nobitex `[price, amount]` string pairs, keyed by market symbol.
+   */
+  private readonly books: Map<
+    string,
+    { bids: [string, string][]; asks: [string, string][] }
+  > = new Map();
+
+  /**
+   * The HTTP server, once started.
+   */
+  private server?: Server;
+
+  /**
+   * Starts the server on a random local port.
+   *
+   * @returns The base URL to configure the Nobitex provider with.
+   */
+  readonly start = async (): Promise<string> => {
+    this.server = createServer(this.handle);
+
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  };
+
+  /**
+   * Stops the server.
+   */
+  readonly stop = async (): Promise<void> => {
+    this.server?.closeAllConnections();
+    await new Promise((resolve) => this.server?.close(resolve));
+  };
+
+  /**
+   * Sets the order book of a market.
+   *
+   * @param symbol The market symbol (e.g. 'USDTIRT').
+   * @param bids The bids, as `[price, amount]` pairs, best first.
+   * @param asks The asks, as `[price, amount]` pairs, best first.
+   */
+  readonly setOrderBook = (
+    symbol: string,
+    bids: [number, number][],
+    asks: [number, number][],
+  ) => {
+    const toLevels = (levels: [number, number][]) =>
+      levels.map(([price, amount]): [string, string] => [
+        String(price),
+        String(amount),
+      ]);
+
+    this.books.set(symbol, { bids: toLevels(bids), asks: toLevels(asks) });
+  };
+
+  /**
+   * Sets the order book of a market to a single level on each side, one unit apart,
+   * so that the best ask is the given price.
+   *
+   * @param symbol The market symbol (e.g. 'USDTIRT').
+   * @param price The best ask.
+   */
+  readonly setPrice = (symbol: string, price: number) =>
+    this.setOrderBook(symbol, [[price - 1, 1]], [[price, 1]]);
+
+  /**
+   * Handles a request to `/v2/orderbook/<symbol>` or `/v2/orderbook/all`.
+   */
+  private readonly handle = (req: IncomingMessage, res: ServerResponse) => {
+    this.requests.push(req.url);
+    res.setHeader('content-type', 'application/json');
+
+    if (this.failWith) {
+      res.statusCode = this.failWith;
+      res.end(JSON.stringify({ status: 'failed' }));
+      return;
+    }
+
+    const symbol = req.url.split('/').pop();
+
+    if (symbol === 'all') {
+      res.end(
+        JSON.stringify({ status: 'ok', ...Object.fromEntries(this.books) }),
+      );
+      return;
+    }
+
+    res.end(JSON.stringify({ status: 'ok', ...this.books.get(symbol) }));
+  };
+}
@@ -0,0 +1,250 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import * as request from 'supertest';
+import { Update } from 'telegraf/types';
+
+/**
+ * A request the bot made to the Telegram Bot API.
+ */
+export interface ApiCall {
+  /**
+   * The API method (e.g. 'sendMessage').
+   */
+  method: string;
+
+  /**
+   * The parameters of the call. Empty for multipart calls (e.g. 'sendPhoto').
+   */
+  payload: Record<string, any>;
+}
+
+/**
+ * An in-process stand-in for the Telegram Bot API.
+ *
+ * It records every call the bot makes, answers them with plausible results, and delivers
+ * updates to the webhook the bot registered, recording the calls the bot answers the
+ * webhook request with (see `webhookReply` in Telegraf).
+ */
+export class FakeTelegramServer {
+  /**
+   * The calls made by the bot, in order.
+   */
+  readonly calls: ApiCall[] = [];
+
+  /**
+   * The bot the server answers `getMe` with.
+   */
+  readonly botInfo = {
+    id: 1000,
+    is_bot: true as const,
+    first_name: 'Price Pulse',
+    username: 'PricePulseTestBot',
+    can_join_groups: true,
+    can_read_all_group_messages: false,
+    supports_inline_queries: true,
+  };
+
+  /**
+   * The status `getChatMember` answers with for every user.
+   */
+  chatMemberStatus = 'administrator';
+
+  /**
+   * The webhook registered by the bot, if any.
+   */
+  webhook?: { url: string; secretToken?: string };
+
+  /**
+   * The time in milliseconds the server takes to answer each call, e.g. to simulate
+   * a broadcast that lasts longer than the interval between price updates.
+   */
+  responseDelay = 0;
+
+  /**
+   * The IDs of the messages deleted by users, which can no longer be edited.
+   */
+  readonly deletedMessages = new Set<number>();
+
+  /**
+   * The HTTP server, once started.
+   */
+  private server?: Server;
+
+  /**
+   * The ID of the next message sent by the bot.
+   */
+  private nextMessageId = 1;
+
+  /**
+   * Starts the server on a random local port.
+   *
+   * @returns The API root to configure Telegraf with.
+   */
+  readonly start = async (): Promise<string> => {
+    this.server = createServer(this.handle);
+
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  };
+
+  /**
+   * Stops the server.
+   */
+  readonly stop = async (): Promise<void> => {
+    this.server?.closeAllConnections();
+    await new Promise((resolve) => this.server?.close(resolve));
+  };
+
+  /**
+   * Delivers an update to the webhook of the bot, like Telegram does.
+   *
+   * @param httpServer The HTTP server of the application the webhook is mounted on.
+   * @param update The update to deliver.
+   */
+  readonly deliver = async (
+    httpServer: Parameters<typeof request>[0],
+    update: Update,
+  ): Promise<void> => {
+    if (!this.webhook) {
+      throw new Error('The bot has not set a webhook');
+    }
+
+    const { pathname } = new URL(this.webhook.url);
+    const response = await request(httpServer)
+      .post(pathname)
+      .set('X-Telegram-Bot-Api-Secret-Token', this.webhook.secretToken ?? '')
+      .send(update)
+      .expect(200);
+
+    if (response.body?.method) {
+      const { method, ...payload } = response.body;
+      this.calls.push({ method, payload });
+    }
+  };
+
+  /**
+   * Lists the calls of an API method.
+   *
+   * @param method The API method (e.g. 'sendMessage').
+   *
+   * @returns The calls, in order.
+   */
+  readonly callsOf = (method: string): ApiCall[] =>
+    this.calls.filter((call) => call.method === method);
+
+  /**
+   * Waits until the bot has made a number of calls of an API method.
+   * Handlers do not always wait for their replies, so replies may follow the webhook response.
+   *
+   * @param method The API method (e.g. 'sendMessage').
+   * @param count The number of calls to wait for.
+   * @param timeout The time in milliseconds to wait for.
+   *
+   * @returns The calls, in order.
+   */
+  readonly waitForCalls = async (
+    method: string,
+    count = 1,
+    timeout = 5000,
+  ): Promise<ApiCall[]> => {
+    const deadline = Date.now() + timeout;
+
+    while (this.callsOf(method).length < count) {
+      if (Date.now() > deadline) {
+        throw new Error(
+          `Expected ${count} ${method} calls, got ${this.callsOf(method).length}`,
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    return this.callsOf(method);
+  };
+
+  /**
+   * Handles a call to the API, at `/bot<token>/<method>`.
+   */
+  private readonly handle = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+  ) => {
+    const method = req.url.split('/').pop();
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+
+    const payload = req.headers['content-type']?.startsWith('application/json')
+      ? JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}')
+      : {};
+
+    this.calls.push({ method, payload });
+
+    // The result is computed as soon as the call arrives, so that e.g. the webhook is
+    // registered once it is set, and sent after the response delay.
+    const notFound =
+      method === 'editMessageText' &&
+      this.deletedMessages.has(payload.message_id);
+    const body = notFound
+      ? {
+          ok: false,
+          error_code: 400,
+          description: 'Bad Request: message to edit not found',
+        }
+      : { ok: true, result: this.answer(method, payload) };
+
+    await new Promise((resolve) => setTimeout(resolve, this.responseDelay));
+
+    res.statusCode = notFound ? 400 : 200;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  /**
+   * Creates the result of a call.
+   *
+   * @param method The API method.
+   * @param payload The parameters of the call.
+   *
+   * @returns The result.
+   */
+  private readonly answer = (method: string, payload: Record<string, any>) => {
+    switch (method) {
+      case 'getMe':
+        return this.botInfo;
+      case 'setWebhook':
+        this.webhook = { url: payload.url, secretToken: payload.secret_token };
+        return true;
+      case 'deleteWebhook':
+        this.webhook = undefined;
+        return true;
+      case 'getChat':
+        return {
+          id: Number(payload.chat_id),
+          type: 'channel',
+          title: `Channel ${payload.chat_id}`,
+        };
+      case 'getChatMember':
+        return {
+          status: this.chatMemberStatus,
+          user: { id: payload.user_id, is_bot: false, first_name: 'User' },
+        };
+      case 'sendMessage':
+      case 'sendPhoto':
+      case 'editMessageText':
+        return {
+          message_id: payload.message_id ?? this.nextMessageId++,
+          date: Math.floor(Date.now() / 1000),
+          chat: { id: payload.chat_id, type: 'private' },
+          text: payload.text,
+        };
+      default:
+        return true;
+    }
+  };
+}
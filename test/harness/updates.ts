@@ -0,0 +1,162 @@
+import { Chat, MessageEntity, Update, User } from 'telegraf/types';
+
+/**
+ * The ID of the next update, message and callback query.
+ */
+let nextId = 1;
+
+/**
+ * Creates a Telegram user.
+ *
+ * @param id The user ID, also used as the ID of the private chat with the bot.
+ * @param languageCode The language of the Telegram app of the user.
+ *
+ * @returns The user.
+ */
+export const createUser = (id: number, languageCode = 'en'): User => ({
+  id,
+  is_bot: false,
+  first_name: `User ${id}`,
+  language_code: languageCode,
+});
+
+/**
+ * Creates the private chat of a user with the bot.
+ *
+ * @param user The user.
+ *
+ * @returns The chat.
+ */
+export const createPrivateChat = (user: User): Chat.PrivateChat => ({
+  id: user.id,
+  type: 'private',
+  first_name: user.first_name,
+});
+
+/**
+ * Creates a channel the bot is a member of.
+ *
+ * @param id The chat ID of the channel.
+ *
+ * @returns The channel.
+ */
+export const createChannel = (id: number): Chat.ChannelChat => ({
+  id,
+  type: 'channel',
+  title: `Channel ${id}`,
+});
+
+/**
+ * Marks a leading command of a text as such, like Telegram does.
+ *
+ * @param text The text (e.g. '/start').
+ *
+ * @returns The entities of the text.
+ */
+const createCommandEntities = (text: string): MessageEntity[] => {
+  const [command] = text.split(' ');
+
+  return command.startsWith('/')
+    ? [{ type: 'bot_command', offset: 0, length: command.length }]
+    : [];
+};
+
+/**
+ * Creates an update for a text message, marking a leading command as such.
+ *
+ * @param chat The chat the message is sent in.
+ * @param from The sender.
+ * @param text The text of the message (e.g. '/start').
+ *
+ * @returns The update.
+ */
+export const createMessageUpdate = (
+  chat: Chat,
+  from: User,
+  text: string,
+): Update.MessageUpdate => ({
+  update_id: nextId++,
+  message: {
+    message_id: nextId++,
+    date: Math.floor(Date.now() / 1000),
+    chat,
+    from,
+    text,
+    entities: createCommandEntities(text),
+  } as Update.MessageUpdate['message'],
+});
+
+/**
+ * Creates an update for a text post in a channel, sent on behalf of the channel.
+ *
+ * @param channel The channel the post is sent in.
+ * @param text The text of the post (e.g. '/liveticker').
+ *
+ * @returns The update.
+ */
+export const createChannelPostUpdate = (
+  channel: Chat.ChannelChat,
+  text: string,
+): Update.ChannelPostUpdate => ({
+  update_id: nextId++,
+  channel_post: {
+    message_id: nextId++,
+    date: Math.floor(Date.now() / 1000),
+    chat: channel,
+    sender_chat: channel,
+    text,
+    entities: createCommandEntities(text),
+  } as Update.ChannelPostUpdate['channel_post'],
+});
+
+/**
+ * Creates an update for a press of an inline keyboard button.
+ *
+ * @param chat The chat of the message the keyboard is attached to.
+ * @param from The user who pressed the button.
+ * @param data The callback data of the button (e.g. 'confirm_currency').
+ * @param messageId The ID of the message the keyboard is attached to.
+ *
+ * @returns The update.
+ */
+export const createCallbackQueryUpdate = (
+  chat: Chat,
+  from: User,
+  data: string,
+  messageId: number,
+): Update.CallbackQueryUpdate => ({
+  update_id: nextId++,
+  callback_query: {
+    id: String(nextId++),
+    from,
+    chat_instance: String(chat.id),
+    data,
+    message: {
+      message_id: messageId,
+      date: Math.floor(Date.now() / 1000),
+      chat,
+      text: '',
+    },
+  },
+});
+
+/**
+ * Creates an update for an inline query, e.g. `@PricePulseTestBot btc`.
+ *
+ * @param from The user who typed the query.
+ * @param query The text of the query.
+ *
+ * @returns The update.
+ */
+export const createInlineQueryUpdate = (
+  from: User,
+  query: string,
+): Update.InlineQueryUpdate => ({
+  update_id: nextId++,
+  inline_query: {
+    id: String(nextId++),
+    from,
+    query,
+    offset: '',
+  },
+});